@@ -1,25 +1,66 @@
-import React, { useState, useEffect, Suspense, useRef } from 'react';
+import React, { useState, useEffect, Suspense, useRef, useMemo, useReducer } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment, ContactShadows, Float } from '@react-three/drei';
 import { 
   GameState, 
+  GameMode,
   Difficulty, 
-  Customer, 
   Order, 
-  Container, 
-  Flavor, 
-  Topping 
+  CustomerSource,
+  GameSettings,
+  ShopProgress,
+  ShiftRules,
+  CampaignProgress,
+  DailyProgress,
+  AchievementProgress,
+  AchievementDefinition,
+  StatsProgress,
+  SaveGame,
+  UpgradeId,
+  ConeSkin,
+  FlavorDefinition,
+  Container,
+  Flavor,
+  InputAction
 } from './types';
-import { DIFFICULTY_SETTINGS, FLAVOR_COLORS } from './constants';
-import { generateCustomerOrder } from './services/geminiService';
-import { IceCream3D } from './components/IceCream3D';
+import { CUSTOMER_ARRIVAL_GAP_MS, CONE_SKINS, PATIENCE_WARNING_SHARE, PATIENCE_CRITICAL_SHARE, CAMPAIGN_DAYS } from './constants';
+import { createCustomerProvider, createLocalProvider, parseCustomerScript, SCRIPTED_MAX_SCOOPS } from './services/customerProvider';
+import { createCustomerQueue, CustomerQueue } from './services/customerQueue';
+import { IceCream3D, HistoryCue } from './components/IceCream3D';
+import { ScoopingStation } from './components/ScoopingStation';
+import { CustomerLine } from './components/CustomerAvatar';
 import { Controls } from './components/Controls';
 import { Confetti } from './components/Confetti';
-import { CurrencyDollarIcon, TrophyIcon, Cog6ToothIcon, XMarkIcon, SpeakerWaveIcon, SpeakerXMarkIcon } from '@heroicons/react/24/solid';
-import { playPopSound, playSuccessSound, playErrorSound, playGameOverSound, playFlavorSound, setVolumes, startMusic, stopMusic, setBPM } from './utils/soundUtils';
+import { OrderTicket } from './components/OrderTicket';
+import { Shop } from './components/Shop';
+import { FlavorEditor } from './components/FlavorEditor';
+import { BindingsEditor } from './components/BindingsEditor';
+import { Campaign } from './components/Campaign';
+import { DaySummary } from './components/DaySummary';
+import { DailyCalendar } from './components/DailyCalendar';
+import { Achievements } from './components/Achievements';
+import { AchievementToasts, AchievementToast } from './components/AchievementToasts';
+import { Stats } from './components/Stats';
+import { CurrencyDollarIcon, TrophyIcon, HeartIcon, Cog6ToothIcon, XMarkIcon, SpeakerWaveIcon, SpeakerXMarkIcon, ShoppingBagIcon, FilmIcon, ForwardIcon, StopIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, BeakerIcon, PuzzlePieceIcon, MapIcon, ArrowPathIcon, CalendarDaysIcon, FireIcon, StarIcon, ChartBarIcon } from '@heroicons/react/24/solid';
+import { describeMistakes } from './utils/scoringUtils';
+import { getToppingsOnLayer } from './utils/orderUtils';
+import { gameReducer, createInitialState, getActiveTicket, getCustomerRequest, getMeltLevels, getCustomersDone, getEventsSince, isExpectingCustomers, RESULT_DELAY_MS, GameAction } from './engine/gameEngine';
+import { createSessionRecorder, advanceReplay, getRecordingDuration, getReplayFlavors, serializeRecording, parseRecording, ReplayProgress, SessionRecording } from './engine/sessionRecording';
+import { downloadTextFile, fileDateStamp } from './utils/fileUtils';
+import { DEFAULT_SHOP_PROGRESS, buyUpgrade, buySkin, getShiftRules, getFullAssortment } from './utils/shopUtils';
+import { DEFAULT_CAMPAIGN_PROGRESS, getDayRules, getNextDay, isCampaignComplete, isDayCleared, recordDay } from './utils/campaignUtils';
+import { getEndlessRules, describeComplexity } from './utils/endlessUtils';
+import { DEFAULT_DAILY_PROGRESS, DailyChallenge, getDailyChallenge, getDailyRules, getStreak, recordDailyResult, toDateKey } from './utils/dailyUtils';
+import { ACHIEVEMENTS, DEFAULT_ACHIEVEMENT_PROGRESS, trackAchievements } from './utils/achievementUtils';
+import { DEFAULT_STATS_PROGRESS, createShiftTally, trackShift, finishShift, recordShift } from './utils/statsUtils';
+import { getFlavor, setCustomFlavors } from './utils/flavorRegistry';
+import { FLAVOR_ACTIONS } from './utils/inputBindings';
+import { DEFAULT_SETTINGS, createDefaultSave, loadSave, storeSave, parseSave, serializeSave } from './utils/saveUtils';
+import { createInputController, InputHandler } from './services/inputController';
+import { playPopSound, playSuccessSound, playErrorSound, playGameOverSound, playFlavorSound, playRemoveSound, playMoveSound, playUndoSound, playRedoSound, playAchievementSound, setVolumes, startMusic, stopMusic, setBPM } from './utils/soundUtils';
 
-const HIGH_SCORE_KEY = 'scoops_high_scores_v1';
-const SETTINGS_KEY = 'scoops_settings_v1';
+const REPLAY_TICK_MS = 50;
+const REPLAY_SPEEDS = [1, 4];
 
 const CircularTimer = ({ timeLeft, maxTime }: { timeLeft: number, maxTime: number }) => {
   const size = 56;
@@ -29,12 +70,12 @@ const CircularTimer = ({ timeLeft, maxTime }: { timeLeft: number, maxTime: numbe
   const progress = timeLeft / maxTime;
   const strokeDashoffset = circumference - (progress * circumference);
   
-  // Logic updated per request:
-  // <= 10s: Red + Pulse
-  // 10s < t <= 20s: Yellow
-  // > 20s: Default Indigo
-  const isCritical = timeLeft <= 10;
-  const isWarning = timeLeft > 10 && timeLeft <= 20;
+  // Relative to the customer's starting patience:
+  // <= 1/3 left: Red + Pulse
+  // <= 2/3 left: Yellow
+  // more: Default Indigo
+  const isCritical = timeLeft <= maxTime * PATIENCE_CRITICAL_SHARE;
+  const isWarning = !isCritical && timeLeft <= maxTime * PATIENCE_WARNING_SHARE;
   
   let color = '#6366F1'; // Indigo-500
   let textColor = 'text-indigo-600';
@@ -95,61 +136,206 @@ const CircularTimer = ({ timeLeft, maxTime }: { timeLeft: number, maxTime: numbe
   );
 };
 
+interface ReplayState extends ReplayProgress {
+  recording: SessionRecording;
+  speed: number;
+  elapsed: number; // ms of the recording played so far
+}
+
 const App = () => {
-  const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.EASY);
-  const [coins, setCoins] = useState(0);
-  const [timer, setTimer] = useState(0);
-  const [customer, setCustomer] = useState<Customer | null>(null);
-  const [highScores, setHighScores] = useState<Record<string, number>>({ 
-    [Difficulty.EASY]: 0,
-    [Difficulty.MEDIUM]: 0,
-    [Difficulty.HARD]: 0,
-    [Difficulty.EXPERT]: 0,
-    [Difficulty.MASTER]: 0
-  });
-  const [isNewHighScore, setIsNewHighScore] = useState(false);
-  const [isSuccess, setIsSuccess] = useState(false);
+  const [game, dispatchEngine] = useReducer(gameReducer, undefined, () => createInitialState());
+  const recorderRef = useRef(createSessionRecorder());
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const [replayError, setReplayError] = useState<string>("");
+
+  // Undo/redo nudge on the 3D stack
+  const [historyCue, setHistoryCue] = useState<HistoryCue | null>(null);
+
+  // Every engine action goes through here so the shift can be recorded
+  const dispatch = (action: GameAction) => {
+    recorderRef.current.record(action);
+    dispatchEngine(action);
+  };
+
+  // While a replay runs the screen shows the replayed state, not the live one
+  const view = replay ? replay.state : game;
+  const {
+    phase: gameState,
+    difficulty,
+    coins,
+    strikes,
+    tickets,
+    activeTicketId,
+    highScores,
+    isNewHighScore,
+    isSuccess,
+    lastScore,
+    feedback,
+    build
+  } = view;
+  const { container: currentContainer, layers: currentLayers, toppings: currentToppings } = build;
+  const activeTicket = getActiveTicket(view);
   
+  // Shop State
+  const [isShopOpen, setIsShopOpen] = useState(false);
+  const [shop, setShop] = useState<ShopProgress>(DEFAULT_SHOP_PROGRESS);
+
+  // Campaign State; `campaignDay` is the day being played, if any
+  const [isCampaignOpen, setIsCampaignOpen] = useState(false);
+  const [campaign, setCampaign] = useState<CampaignProgress>(DEFAULT_CAMPAIGN_PROGRESS);
+  const [campaignDay, setCampaignDay] = useState<number | null>(null);
+  // The campaign day on screen; replays don't know which day they were
+  const currentDay = view.mode === GameMode.CAMPAIGN && !replay ? campaignDay : null;
+
+  // Daily Challenge State; `dailyShift` is the challenge being played and its own customer line
+  const [isDailyOpen, setIsDailyOpen] = useState(false);
+  const [daily, setDaily] = useState<DailyProgress>(DEFAULT_DAILY_PROGRESS);
+  const [dailyShift, setDailyShift] = useState<{ challenge: DailyChallenge; queue: CustomerQueue } | null>(null);
+  const today = toDateKey(new Date());
+
+  // Achievements State
+  const [isAchievementsOpen, setIsAchievementsOpen] = useState(false);
+  const [achievements, setAchievements] = useState<AchievementProgress>(DEFAULT_ACHIEVEMENT_PROGRESS);
+  const [toasts, setToasts] = useState<AchievementToast[]>([]);
+  const nextToastKey = useRef(0);
+  const handledEventId = useRef(0); // The engine's eventId when events were last handled
+
+  // Stats State; the shift in progress is tallied here and saved at game over
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [stats, setStats] = useState<StatsProgress>(DEFAULT_STATS_PROGRESS);
+  const shiftTallyRef = useRef(createShiftTally());
+
+  // Custom Flavors (the registry holds the live copy; this drives re-renders)
+  const [isFlavorEditorOpen, setIsFlavorEditorOpen] = useState(false);
+  const [customFlavors, setCustomFlavorList] = useState<FlavorDefinition[]>([]);
+
   // Settings State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [settings, setSettings] = useState({ sfxVolume: 0.5, bgmVolume: 0.3 });
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const [scriptError, setScriptError] = useState<string>("");
+  const [pendingImport, setPendingImport] = useState<SaveGame | null>(null); // Waiting for the player to confirm
+  const [saveError, setSaveError] = useState<string>("");
+  const [isBindingsOpen, setIsBindingsOpen] = useState(false);
 
-  // Building State
-  const [currentContainer, setCurrentContainer] = useState<Container>(Container.CONE);
-  const [currentLayers, setCurrentLayers] = useState<Flavor[]>([]);
-  const [currentTopping, setCurrentTopping] = useState<Topping>(Topping.NONE);
-  
-  const [feedback, setFeedback] = useState<string>("");
-  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Keyboard & gamepad. The controller lives for the whole session and reads
+  // the latest bindings and handler through refs.
+  const [highlightedFlavor, setHighlightedFlavor] = useState(0);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const inputHandlerRef = useRef<InputHandler>(() => false);
+  const inputController = useMemo(
+    () => createInputController(() => settingsRef.current.bindings, (action) => inputHandlerRef.current(action)),
+    []
+  );
+  useEffect(() => () => inputController.dispose(), [inputController]);
 
-  // Load High Scores & Settings
+  // Rebuilt only when the source changes, so seeded/scripted sequences keep their place
+  const customerProvider = useMemo(
+    () => createCustomerProvider(settings.customerSource, settings.scriptedCustomers),
+    [settings.customerSource, settings.scriptedCustomers]
+  );
+  const sharedQueue = useMemo(() => createCustomerQueue(customerProvider), [customerProvider]);
+  const customerQueue = dailyShift?.queue ?? sharedQueue;
+
+  // Drop prefetched customers when the provider is replaced
+  useEffect(() => () => customerQueue.clear(), [customerQueue]);
+
+  // Cancel prefetching whenever the player is back on the menu
   useEffect(() => {
-    const savedScores = localStorage.getItem(HIGH_SCORE_KEY);
-    if (savedScores) {
-      try {
-        setHighScores(prev => ({...prev, ...JSON.parse(savedScores)}));
-      } catch (e) {
-        console.error("Failed to parse high scores", e);
-      }
+    if (game.phase === GameState.MENU) customerQueue.clear();
+  }, [game.phase, customerQueue]);
+
+  // Everything saved goes through one document; `saveRef` is what's in storage
+  const saveRef = useRef<SaveGame>(createDefaultSave());
+
+  const writeSave = (changes: Partial<SaveGame>) => {
+      saveRef.current = { ...saveRef.current, ...changes, savedAt: new Date().toISOString() };
+      storeSave(saveRef.current);
+  };
+
+  const applySave = (save: SaveGame) => {
+      saveRef.current = save;
+      dispatch({ type: 'LOAD_HIGH_SCORES', highScores: save.highScores });
+      setShop(save.shop);
+      setCampaign(save.campaign);
+      setDaily(save.daily);
+      setAchievements(save.achievements);
+      setStats(save.stats);
+      setCustomFlavors(save.customFlavors);
+      setCustomFlavorList(save.customFlavors);
+      setSettings(save.settings);
+      setVolumes(save.settings.sfxVolume, save.settings.bgmVolume);
+  };
+
+  // Load the save
+  useEffect(() => {
+    applySave(loadSave());
+  }, []);
+
+  const handleInputAction = (action: InputAction): boolean => {
+    if (game.phase !== GameState.PLAYING || replay || isSettingsOpen) return false;
+    const { flavors, containers } = game.rules.assortment;
+
+    const flavorSlot = FLAVOR_ACTIONS.indexOf(action);
+    if (flavorSlot >= 0) {
+      if (!flavors[flavorSlot]) return false;
+      setHighlightedFlavor(flavorSlot);
+      dispatch({ type: 'ADD_FLAVOR', flavor: flavors[flavorSlot] });
+      return true;
     }
 
-    const savedSettings = localStorage.getItem(SETTINGS_KEY);
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(parsed);
-        setVolumes(parsed.sfxVolume, parsed.bgmVolume);
-      } catch (e) {
-        console.error("Failed to parse settings", e);
+    switch (action) {
+      case InputAction.PREV_FLAVOR:
+        setHighlightedFlavor(i => (i - 1 + flavors.length) % flavors.length);
+        playPopSound();
+        return true;
+      case InputAction.NEXT_FLAVOR:
+        setHighlightedFlavor(i => (i + 1) % flavors.length);
+        playPopSound();
+        return true;
+      case InputAction.SCOOP_HIGHLIGHTED:
+        dispatch({ type: 'ADD_FLAVOR', flavor: flavors[highlightedFlavor % flavors.length] });
+        return true;
+      case InputAction.CONE:
+        dispatch({ type: 'SET_CONTAINER', container: Container.CONE });
+        return true;
+      case InputAction.CUP:
+        dispatch({ type: 'SET_CONTAINER', container: Container.CUP });
+        return true;
+      case InputAction.NEXT_CONTAINER: {
+        const next = containers[(containers.indexOf(game.build.container) + 1) % containers.length];
+        dispatch({ type: 'SET_CONTAINER', container: next });
+        return true;
+      }
+      case InputAction.CYCLE_TOPPING:
+        dispatch({ type: 'CYCLE_TOPPING' });
+        return true;
+      case InputAction.UNDO:
+        dispatch({ type: 'UNDO' });
+        return true;
+      case InputAction.REDO:
+        dispatch({ type: 'REDO' });
+        return true;
+      case InputAction.TRASH:
+        dispatch({ type: 'CLEAR' });
+        return true;
+      case InputAction.SERVE:
+        dispatch({ type: 'SERVE' });
+        return true;
+      case InputAction.NEXT_CUSTOMER: {
+        if (game.tickets.length < 2) return false;
+        const index = game.tickets.findIndex(t => t.id === game.activeTicketId);
+        dispatch({ type: 'SELECT_TICKET', ticketId: game.tickets[(index + 1) % game.tickets.length].id });
+        return true;
       }
-    } else {
-        setVolumes(0.5, 0.3); // Defaults
     }
-  }, []);
+    return false;
+  };
+  inputHandlerRef.current = handleInputAction;
 
   // Initialize Game Loop
-  const startGame = (diff: Difficulty) => {
+  const startShift = (mode: GameMode, diff: Difficulty, baseRules: ShiftRules, challenge: DailyChallenge | null = null) => {
     // Play sound to unlock AudioContext
     playPopSound();
     
@@ -161,16 +347,117 @@ const App = () => {
         startMusic();
     }
     
-    setDifficulty(diff);
-    setCoins(0);
-    setIsNewHighScore(false);
-    setIsSuccess(false);
-    setGameState(GameState.LOADING_ORDER);
+    // The daily challenge generates its customers from the date, fresh for every attempt
+    const provider = challenge ? createLocalProvider(challenge.seed) : customerProvider;
+    const queue = challenge ? createCustomerQueue(provider) : sharedQueue;
+    setDailyShift(challenge && { challenge, queue });
+
+    // Scripted customers order whatever the script says, so nothing stays locked
+    // and orders are built to the script, not the difficulty
+    const rules = provider.source === CustomerSource.SCRIPTED
+        ? { ...baseRules, assortment: getFullAssortment(), maxScoops: SCRIPTED_MAX_SCOOPS }
+        : baseRules;
+
+    // Start fetching customers right away
+    queue.prime({ difficulty: diff, scoopCount: rules.maxScoops, assortment: rules.assortment, complexity: rules.complexity });
+
+    recorderRef.current.start(diff, provider.seed);
+    dispatch({ type: 'START', mode, difficulty: diff, rules });
+  };
+
+  const startGame = (diff: Difficulty) => {
+    setCampaignDay(null);
+    // Upgrades are applied once, at the start of the shift
+    startShift(GameMode.CLASSIC, diff, getShiftRules(diff, shop));
+  };
+
+  // Starts at level 1 and tunes itself from there
+  const startEndless = () => {
+    setCampaignDay(null);
+    startShift(GameMode.ENDLESS, Difficulty.EASY, getEndlessRules(shop));
+  };
+
+  const startDaily = () => {
+    const challenge = getDailyChallenge(today);
+    setIsDailyOpen(false);
+    setCampaignDay(null);
+    startShift(GameMode.DAILY, challenge.difficulty, getDailyRules(challenge), challenge);
+  };
+
+  const startCampaignDay = (day: number) => {
+    setIsCampaignOpen(false);
+    setCampaignDay(day);
+    startShift(GameMode.CAMPAIGN, CAMPAIGN_DAYS[day].difficulty, getDayRules(day, shop));
+  };
+
+  // Hands-on drops go through the same action as the flavor buttons; the reducer is
+  // pure, so running it ahead tells the tubs whether the scoop landed or falls
+  const handleDropScoop = (flavor: Flavor): boolean => {
+    const action: GameAction = { type: 'ADD_FLAVOR', flavor };
+    const accepted = gameReducer(game, action).build.layers.length > game.build.layers.length;
+    dispatch(action);
+    return accepted;
+  };
+
+  const updateShop = (newShop: ShopProgress) => {
+      setShop(newShop);
+      writeSave({ shop: newShop });
+  };
+
+  const handleBuyUpgrade = (id: UpgradeId) => {
+      const next = buyUpgrade(shop, id);
+      if (next === shop) return;
+      playSuccessSound();
+      updateShop(next);
   };
 
-  const updateSettings = (newSettings: typeof settings) => {
+  const handleBuySkin = (skin: ConeSkin) => {
+      const next = buySkin(shop, skin);
+      if (next === shop) return;
+      playPopSound();
+      updateShop(next);
+  };
+
+  const updateCampaign = (newCampaign: CampaignProgress) => {
+      setCampaign(newCampaign);
+      writeSave({ campaign: newCampaign });
+  };
+
+  const updateDaily = (newDaily: DailyProgress) => {
+      setDaily(newDaily);
+      writeSave({ daily: newDaily });
+  };
+
+  const updateAchievements = (newAchievements: AchievementProgress) => {
+      setAchievements(newAchievements);
+      writeSave({ achievements: newAchievements });
+  };
+
+  const updateStats = (newStats: StatsProgress) => {
+      setStats(newStats);
+      writeSave({ stats: newStats });
+  };
+
+  const updateCustomFlavors = (flavors: FlavorDefinition[]) => {
+      setCustomFlavors(flavors);
+      setCustomFlavorList(flavors);
+      writeSave({ customFlavors: flavors });
+  };
+
+  const handleSaveFlavor = (flavor: FlavorDefinition) => {
+      const exists = customFlavors.some(f => f.id === flavor.id);
+      updateCustomFlavors(exists ? customFlavors.map(f => f.id === flavor.id ? flavor : f) : [...customFlavors, flavor]);
+      playFlavorSound(flavor);
+  };
+
+  const handleDeleteFlavor = (id: Flavor) => {
+      updateCustomFlavors(customFlavors.filter(f => f.id !== id));
+      playPopSound();
+  };
+
+  const updateSettings = (newSettings: GameSettings) => {
       setSettings(newSettings);
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(newSettings));
+      writeSave({ settings: newSettings });
       setVolumes(newSettings.sfxVolume, newSettings.bgmVolume);
       
       if (newSettings.bgmVolume > 0) {
@@ -180,123 +467,230 @@ const App = () => {
       }
   };
 
-  // Fetch Order
+  // Fill the line: the first customer comes right away, the rest trickle in
+  const isCounterOpen = game.phase === GameState.LOADING_ORDER || game.phase === GameState.PLAYING || game.phase === GameState.RESULT;
+  const lineLength = game.tickets.length;
   useEffect(() => {
-    if (gameState === GameState.LOADING_ORDER) {
-      setFeedback("Here comes a customer...");
-      setIsSuccess(false);
-      const fetchOrder = async () => {
-        try {
-          const newCustomer = await generateCustomerOrder(difficulty);
-          setCustomer(newCustomer);
-          
-          // Reset Build Area
-          setCurrentContainer(Container.CONE);
-          setCurrentLayers([]);
-          setCurrentTopping(Topping.NONE);
-          
-          // Set Timer
-          setTimer(DIFFICULTY_SETTINGS[difficulty].timeLimit);
-          setGameState(GameState.PLAYING);
-        } catch (e) {
-          console.error(e);
-          setFeedback("Customer got lost!");
-          setTimeout(() => setGameState(GameState.MENU), 2000);
+    if (!isCounterOpen || lineLength >= game.rules.maxCustomers || !isExpectingCustomers(game)) return;
+    let isCancelled = false;
+    const fetchOrder = async () => {
+      try {
+        const newCustomer = await customerQueue.take(getCustomerRequest(game));
+        if (isCancelled) return;
+        dispatch({ type: 'CUSTOMER_ARRIVED', customer: newCustomer });
+      } catch (e) {
+        if (isCancelled) return;
+        console.error(e);
+        // Only fatal when nobody is left to serve
+        if (lineLength === 0) {
+          dispatch({ type: 'CUSTOMER_LOST' });
+          setTimeout(() => dispatch({ type: 'RETURN_TO_MENU' }), RESULT_DELAY_MS);
         }
-      };
-      fetchOrder();
-    }
-  }, [gameState, difficulty]);
+      }
+    };
+    const t = setTimeout(fetchOrder, lineLength === 0 ? 0 : CUSTOMER_ARRIVAL_GAP_MS);
+    return () => {
+      isCancelled = true;
+      clearTimeout(t);
+    };
+  }, [isCounterOpen, lineLength, game.nextTicketId, game.rules, customerQueue]);
 
-  // Timer Logic
+  // Patience countdown for everyone in line
+  const isWaiting = game.phase === GameState.PLAYING && lineLength > 0;
   useEffect(() => {
-    if (gameState === GameState.PLAYING) {
-        // Increase urgency when time is low
-        if (timer <= 10 && timer > 0) {
-            setBPM(150);
-        } else {
-            setBPM(110);
-        }
-    }
+    if (!isWaiting) return;
+    const id = setInterval(() => dispatch({ type: 'TICK' }), 1000);
+    return () => clearInterval(id);
+  }, [isWaiting]);
 
-    if (gameState === GameState.PLAYING && timer > 0) {
-      timerRef.current = setTimeout(() => setTimer(t => t - 1), 1000);
-    } else if (gameState === GameState.PLAYING && timer === 0) {
-      handleGameOver();
-    }
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
-    };
-  }, [timer, gameState]);
-
-  const handleGameOver = () => {
-    playGameOverSound();
-    setBPM(110); // Reset tempo
-
-    // Check High Score
-    if (coins > (highScores[difficulty] || 0)) {
-        const newHighScores = { ...highScores, [difficulty]: coins };
-        setHighScores(newHighScores);
-        localStorage.setItem(HIGH_SCORE_KEY, JSON.stringify(newHighScores));
-        setIsNewHighScore(true);
+  // Auto-Scooper upgrade, for shifts whose rules allow it (not the daily challenge)
+  const autoScoopSeconds = game.rules.autoScoopSeconds ?? 0;
+  useEffect(() => {
+    if (!isWaiting || autoScoopSeconds === 0) return;
+    const id = setInterval(() => dispatch({ type: 'AUTO_SCOOP' }), autoScoopSeconds * 1000);
+    return () => clearInterval(id);
+  }, [isWaiting, autoScoopSeconds]);
+
+  // Increase urgency when someone is about to leave
+  const isAnyoneCritical = game.tickets.some(t => t.patience <= t.maxPatience * PATIENCE_CRITICAL_SHARE);
+  useEffect(() => {
+    if (game.phase !== GameState.PLAYING) return;
+    setBPM(isAnyoneCritical ? 150 : 110);
+  }, [game.phase, isAnyoneCritical]);
+
+  // Leave the result screen after a short pause
+  useEffect(() => {
+    if (game.phase !== GameState.RESULT) return;
+    const t = setTimeout(() => dispatch({ type: 'ADVANCE' }), RESULT_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [game.phase]);
+
+  // Side effects for engine events, in order. Several can land between renders,
+  // so everything since the last run is handled, not just the newest.
+  useEffect(() => {
+    const events = getEventsSince(game, handledEventId.current);
+    handledEventId.current = game.eventId;
+    let progress = achievements;
+    const unlocked: AchievementDefinition[] = [];
+
+    events.forEach(event => {
+      shiftTallyRef.current = trackShift(shiftTallyRef.current, event);
+
+      switch (event.type) {
+        case 'containerSet':
+        case 'toppingToggled':
+        case 'buildCleared':
+        case 'ticketSelected':
+          playPopSound();
+          break;
+        case 'scoopRemoved':
+          playRemoveSound();
+          break;
+        case 'scoopMoved':
+          playMoveSound();
+          break;
+        case 'buildUndone':
+          playUndoSound();
+          setHistoryCue(cue => ({ key: (cue?.key ?? 0) + 1, isUndo: true }));
+          break;
+        case 'buildRedone':
+          playRedoSound();
+          setHistoryCue(cue => ({ key: (cue?.key ?? 0) + 1, isUndo: false }));
+          break;
+        case 'flavorAdded':
+          // Play unique sound for this flavor
+          playFlavorSound(getFlavor(event.flavor));
+          break;
+        case 'flavorRejected':
+        case 'toppingRejected':
+        case 'containerRejected':
+        case 'walkedOut':
+          playErrorSound();
+          break;
+        case 'served':
+          if (event.score.isPerfect) {
+            playSuccessSound();
+          } else if (event.score.isPassing) {
+            playPopSound();
+          } else {
+            playErrorSound();
+          }
+          break;
+        case 'gameOver':
+          playGameOverSound();
+          setBPM(110); // Reset tempo
+          if (event.isNewHighScore) {
+            writeSave({ highScores: game.highScores });
+          }
+          // Shift earnings go to the wallet
+          updateShop({ ...shop, wallet: shop.wallet + event.coins });
+          if (game.mode === GameMode.CAMPAIGN && campaignDay !== null && isDayCleared(campaignDay, event.coins, game.strikes)) {
+            updateCampaign(recordDay(campaign, campaignDay, event.coins));
+          }
+          // Counted for the day it started on, even if it ran past midnight
+          if (game.mode === GameMode.DAILY && dailyShift) {
+            updateDaily(recordDailyResult(daily, dailyShift.challenge.date, event.coins));
+          }
+          updateStats(recordShift(stats, finishShift(shiftTallyRef.current, game)));
+          setLastRecording(recorderRef.current.finish());
+          break;
+      }
+
+      const tracked = trackAchievements(progress, event, game);
+      progress = tracked.progress;
+      unlocked.push(...tracked.unlocked);
+    });
+
+    if (progress !== achievements) updateAchievements(progress);
+    if (unlocked.length > 0) {
+      playAchievementSound();
+      const added = unlocked.map(achievement => ({ key: nextToastKey.current++, achievement }));
+      setToasts(ts => [...ts, ...added]);
     }
+  }, [game.eventId]);
+
+  // Replay playback: feed recorded actions into a separate engine state
+  const isReplayRunning = replay !== null && !replay.error && replay.cursor < replay.recording.entries.length;
+  useEffect(() => {
+    if (!isReplayRunning) return;
+    const id = setInterval(() => {
+      setReplay(r => {
+        if (!r) return r;
+        const elapsed = r.elapsed + REPLAY_TICK_MS * r.speed;
+        return { ...r, ...advanceReplay(r.recording, elapsed, r), elapsed };
+      });
+    }, REPLAY_TICK_MS);
+    return () => clearInterval(id);
+  }, [isReplayRunning]);
 
-    setGameState(GameState.GAME_OVER);
-    setFeedback("Out of time!");
+  // An entry the engine couldn't apply ends the replay, with the reason on the menu
+  useEffect(() => {
+    if (!replay?.error) return;
+    console.error(replay.error);
+    setReplayError(replay.error);
+    stopReplay();
+  }, [replay?.error]);
+
+  const startReplay = (recording: SessionRecording) => {
+    setIsSettingsOpen(false);
+    setCustomFlavors(getReplayFlavors(recording));
+    setReplay({ recording, speed: REPLAY_SPEEDS[0], elapsed: 0, ...advanceReplay(recording, 0) });
   };
 
-  // Building Logic
-  const addFlavor = (f: Flavor) => {
-    const max = DIFFICULTY_SETTINGS[difficulty].maxScoops + 1; // Allow 1 extra for mistakes
-    if (currentLayers.length < max) {
-      // Play unique sound for this flavor
-      playFlavorSound(f);
-      setCurrentLayers(prev => [...prev, f]);
-    } else {
-        playErrorSound();
-        setFeedback("Too high! Use Trash.");
-    }
+  const stopReplay = () => {
+    setCustomFlavors(customFlavors);
+    setReplay(null);
+    dispatch({ type: 'RETURN_TO_MENU' });
   };
 
-  const setContainerWithSound = (c: Container) => {
-    playPopSound();
-    setCurrentContainer(c);
-  }
+  const exportRecording = (recording: SessionRecording) => {
+    downloadTextFile(`scoops-replay-${fileDateStamp(new Date(recording.recordedAt))}.json`, serializeRecording(recording));
+  };
 
-  const setToppingWithSound = (t: Topping) => {
-    playPopSound();
-    setCurrentTopping(t);
-  }
+  const importRecording = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      setReplayError("");
+      startReplay(recording);
+    } catch (e) {
+      console.error("Failed to load replay", e);
+      setReplayError(e instanceof Error ? e.message : "Invalid replay file");
+    }
+  };
 
-  const handleServe = () => {
-    if (!customer) return;
+  const loadCustomerScript = async (file: File) => {
+      try {
+          const customers = parseCustomerScript(await file.text());
+          setScriptError("");
+          updateSettings({ ...settings, customerSource: CustomerSource.SCRIPTED, scriptedCustomers: customers });
+      } catch (e) {
+          console.error("Failed to load customer script", e);
+          setScriptError(e instanceof Error ? e.message : "Invalid script file");
+      }
+  };
 
-    setGameState(GameState.RESULT);
-    
-    // Validate
-    const target = customer.order;
-    const isContainerCorrect = target.container === currentContainer;
-    const isToppingCorrect = target.topping === currentTopping;
-    
-    // Compare arrays
-    const isLayersCorrect = target.layers.length === currentLayers.length && 
-        target.layers.every((val, index) => val === currentLayers[index]);
+  const exportSave = () => {
+    downloadTextFile(`scoops-save-${fileDateStamp()}.json`, serializeSave(saveRef.current));
+  };
 
-    if (isContainerCorrect && isToppingCorrect && isLayersCorrect) {
-      playSuccessSound();
-      setIsSuccess(true);
-      const reward = 10 * DIFFICULTY_SETTINGS[difficulty].coinMultiplier;
-      setCoins(c => c + reward);
-      setFeedback(`Perfect! +${reward} Coins!`);
-      setTimeout(() => setGameState(GameState.LOADING_ORDER), 2000);
-    } else {
-      playErrorSound();
-      setIsSuccess(false);
-      setFeedback("Wrong Order! Game Over.");
-      setTimeout(() => handleGameOver(), 2000);
+  const importSave = async (file: File) => {
+    try {
+      setPendingImport(parseSave(await file.text()));
+      setSaveError("");
+    } catch (e) {
+      console.error("Failed to load save", e);
+      setSaveError(e instanceof Error ? e.message : "Invalid save file");
     }
   };
 
+  const confirmImport = () => {
+    if (!pendingImport) return;
+    applySave(pendingImport);
+    storeSave(pendingImport);
+    setPendingImport(null);
+    playSuccessSound();
+  };
+
   // Renderers
   const renderSettingsModal = () => (
       <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -346,6 +740,103 @@ const App = () => {
                           className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-pink-500 hover:accent-pink-400"
                       />
                   </div>
+
+                  {/* Customer Source */}
+                  <div>
+                      <label className="font-bold text-gray-600 block mb-2">Customers</label>
+                      <div className="flex gap-2">
+                          {Object.values(CustomerSource).map(source => (
+                              <button
+                                  key={source}
+                                  onClick={() => updateSettings({ ...settings, customerSource: source })}
+                                  className={`flex-1 py-2 text-sm rounded-xl font-bold transition-all ${settings.customerSource === source ? 'bg-indigo-500 text-white shadow-md' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+                              >
+                                  {source}
+                              </button>
+                          ))}
+                      </div>
+                      {settings.customerSource === CustomerSource.SCRIPTED && (
+                          <div className="mt-2 text-xs text-gray-500">
+                              <input
+                                  type="file"
+                                  accept="application/json,.json"
+                                  onChange={(e) => e.target.files?.[0] && loadCustomerScript(e.target.files[0])}
+                                  className="block w-full text-xs file:mr-2 file:py-1 file:px-3 file:rounded-lg file:border-0 file:bg-indigo-100 file:text-indigo-700 file:font-bold"
+                              />
+                              <p className="mt-1">{settings.scriptedCustomers.length} customer(s) loaded</p>
+                              {scriptError && <p className="mt-1 text-red-500 font-bold">{scriptError}</p>}
+                          </div>
+                      )}
+                  </div>
+
+                  {/* Hands-on Mode */}
+                  <div>
+                      <label className="font-bold text-gray-600 block mb-2">Scooping</label>
+                      <div className="flex gap-2">
+                          {[false, true].map(handsOn => (
+                              <button
+                                  key={String(handsOn)}
+                                  onClick={() => updateSettings({ ...settings, handsOn })}
+                                  className={`flex-1 py-2 text-sm rounded-xl font-bold transition-all ${settings.handsOn === handsOn ? 'bg-indigo-500 text-white shadow-md' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+                              >
+                                  {handsOn ? 'Hands-on' : 'Buttons'}
+                              </button>
+                          ))}
+                      </div>
+                      {settings.handsOn && <p className="mt-1 text-xs text-gray-500">Drag scoops from the tubs onto the stack. The buttons still work.</p>}
+                  </div>
+
+                  {/* Keyboard & Gamepad */}
+                  <button
+                      onClick={() => setIsBindingsOpen(true)}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-xl font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors"
+                  >
+                      <PuzzlePieceIcon className="h-5 w-5" /> Keyboard & Gamepad
+                  </button>
+
+                  {/* Save Data; swapping saves mid-shift would mix two players' progress */}
+                  {gameState === GameState.MENU && (
+                      <div>
+                          <label className="font-bold text-gray-600 block mb-2">Save Data</label>
+                          {pendingImport ? (
+                              <div className="bg-yellow-50 border-2 border-yellow-200 rounded-xl p-3 text-sm">
+                                  <p className="text-gray-700 font-bold mb-2">
+                                      Replace all progress here with the save from {new Date(pendingImport.savedAt).toLocaleString()}?
+                                  </p>
+                                  <div className="flex gap-2">
+                                      <button onClick={confirmImport} className="flex-1 py-2 rounded-xl font-bold bg-yellow-400 text-yellow-900 hover:bg-yellow-500 transition-colors">
+                                          Replace
+                                      </button>
+                                      <button onClick={() => setPendingImport(null)} className="flex-1 py-2 rounded-xl font-bold bg-white text-gray-600 hover:bg-gray-100 transition-colors">
+                                          Cancel
+                                      </button>
+                                  </div>
+                              </div>
+                          ) : (
+                              <div className="flex gap-2">
+                                  <button
+                                      onClick={exportSave}
+                                      className="flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-xl font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors"
+                                  >
+                                      <ArrowDownTrayIcon className="h-4 w-4" /> Export
+                                  </button>
+                                  <label className="flex-1 flex items-center justify-center gap-2 py-2 text-sm rounded-xl font-bold bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-colors cursor-pointer">
+                                      <ArrowUpTrayIcon className="h-4 w-4" /> Import
+                                      <input
+                                          type="file"
+                                          accept="application/json,.json"
+                                          className="hidden"
+                                          onChange={(e) => {
+                                              if (e.target.files?.[0]) importSave(e.target.files[0]);
+                                              e.target.value = "";
+                                          }}
+                                      />
+                                  </label>
+                              </div>
+                          )}
+                          {saveError && <p className="mt-1 text-xs text-red-500 font-bold">{saveError}</p>}
+                      </div>
+                  )}
               </div>
 
               <button 
@@ -364,6 +855,34 @@ const App = () => {
         <h1 className="text-5xl font-display text-pink-600 mb-2 drop-shadow-sm">Scoops & Smiles</h1>
         <p className="text-gray-500 mb-6 font-bold text-lg">Serve AI customers before they melt!</p>
         
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+          <button
+            onClick={() => setIsCampaignOpen(true)}
+            className="py-4 text-lg font-black text-white rounded-2xl shadow-lg bg-emerald-500 hover:bg-emerald-600 transition-transform hover:scale-105 active:scale-95 flex flex-col items-center justify-center"
+          >
+            <span className="flex items-center gap-2"><MapIcon className="h-6 w-6" /> CAMPAIGN</span>
+            <span className="mt-1 text-xs bg-black/20 px-2 py-0.5 rounded-full">
+              {isCampaignComplete(campaign) ? 'Complete!' : `Day ${getNextDay(campaign) + 1}: ${CAMPAIGN_DAYS[getNextDay(campaign)].name}`}
+            </span>
+          </button>
+          <button
+            onClick={startEndless}
+            className="py-4 text-lg font-black text-white rounded-2xl shadow-lg bg-sky-500 hover:bg-sky-600 transition-transform hover:scale-105 active:scale-95 flex flex-col items-center justify-center"
+          >
+            <span className="flex items-center gap-2"><ArrowPathIcon className="h-6 w-6" /> ENDLESS</span>
+            <span className="mt-1 text-xs bg-black/20 px-2 py-0.5 rounded-full">Adapts to how you play</span>
+          </button>
+          <button
+            onClick={() => setIsDailyOpen(true)}
+            className="py-4 text-lg font-black text-white rounded-2xl shadow-lg bg-orange-500 hover:bg-orange-600 transition-transform hover:scale-105 active:scale-95 flex flex-col items-center justify-center"
+          >
+            <span className="flex items-center gap-2"><CalendarDaysIcon className="h-6 w-6" /> DAILY</span>
+            <span className="mt-1 text-xs bg-black/20 px-2 py-0.5 rounded-full flex items-center gap-1">
+              {daily.results[today] ? <><FireIcon className="h-3 w-3" /> {getStreak(daily, today)} day streak</> : "Today's challenge is up!"}
+            </span>
+          </button>
+        </div>
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-8">
           {Object.values(Difficulty).map(d => (
             <button
@@ -404,16 +923,61 @@ const App = () => {
             </div>
         </div>
 
-        <button 
-            onClick={() => setIsSettingsOpen(true)}
-            className="flex items-center justify-center gap-2 mx-auto text-gray-500 hover:text-indigo-600 font-bold px-4 py-2 rounded-xl hover:bg-gray-100 transition-colors"
-        >
-            <Cog6ToothIcon className="h-5 w-5" /> Settings
-        </button>
+        <div className="flex flex-wrap justify-center gap-2">
+            <button 
+                onClick={() => setIsShopOpen(true)}
+                className="flex items-center justify-center gap-2 text-yellow-600 hover:text-yellow-700 font-bold px-4 py-2 rounded-xl bg-yellow-50 hover:bg-yellow-100 transition-colors"
+            >
+                <ShoppingBagIcon className="h-5 w-5" /> Shop
+                <span className="font-mono text-xs bg-yellow-200 px-2 py-0.5 rounded-full">{shop.wallet}</span>
+            </button>
+            <button 
+                onClick={() => setIsFlavorEditorOpen(true)}
+                className="flex items-center justify-center gap-2 text-pink-500 hover:text-pink-600 font-bold px-4 py-2 rounded-xl hover:bg-pink-50 transition-colors"
+            >
+                <BeakerIcon className="h-5 w-5" /> Flavors
+            </button>
+            <button 
+                onClick={() => setIsAchievementsOpen(true)}
+                className="flex items-center justify-center gap-2 text-yellow-600 hover:text-yellow-700 font-bold px-4 py-2 rounded-xl hover:bg-yellow-50 transition-colors"
+            >
+                <StarIcon className="h-5 w-5" /> Achievements
+                <span className="font-mono text-xs bg-yellow-100 px-2 py-0.5 rounded-full">
+                    {ACHIEVEMENTS.filter(a => achievements.unlocked[a.id]).length}/{ACHIEVEMENTS.length}
+                </span>
+            </button>
+            <button 
+                onClick={() => setIsStatsOpen(true)}
+                className="flex items-center justify-center gap-2 text-indigo-500 hover:text-indigo-600 font-bold px-4 py-2 rounded-xl hover:bg-indigo-50 transition-colors"
+            >
+                <ChartBarIcon className="h-5 w-5" /> Stats
+            </button>
+            <button 
+                onClick={() => setIsSettingsOpen(true)}
+                className="flex items-center justify-center gap-2 text-gray-500 hover:text-indigo-600 font-bold px-4 py-2 rounded-xl hover:bg-gray-100 transition-colors"
+            >
+                <Cog6ToothIcon className="h-5 w-5" /> Settings
+            </button>
+            <label className="flex items-center justify-center gap-2 text-gray-500 hover:text-indigo-600 font-bold px-4 py-2 rounded-xl hover:bg-gray-100 transition-colors cursor-pointer">
+                <ArrowUpTrayIcon className="h-5 w-5" /> Load Replay
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        if (e.target.files?.[0]) importRecording(e.target.files[0]);
+                        e.target.value = "";
+                    }}
+                />
+            </label>
+        </div>
+        {replayError && <p className="mt-2 text-sm text-red-500 font-bold">{replayError}</p>}
       </div>
     </div>
   );
 
+  const canPlayNextDay = currentDay !== null && currentDay + 1 < CAMPAIGN_DAYS.length && isDayCleared(currentDay, coins, strikes);
+
   const renderGameOver = () => (
     <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm p-4">
        <div className="bg-white p-8 rounded-3xl shadow-2xl text-center max-w-md w-full animate-bounce-in relative overflow-hidden">
@@ -423,23 +987,65 @@ const App = () => {
               </div>
           )}
           
-          <h2 className="text-4xl font-display text-red-500 mb-4 mt-4">Shift Over!</h2>
-          <p className="text-2xl font-bold text-gray-700 mb-2">{feedback}</p>
-          
-          <div className={`p-4 rounded-xl mb-6 border-2 ${isNewHighScore ? 'bg-yellow-50 border-yellow-400' : 'bg-gray-50 border-gray-200'}`}>
-            <span className="text-sm uppercase text-gray-500 font-bold">Total Earnings</span>
-            <div className="text-5xl font-black text-gray-800 flex items-center justify-center gap-2 my-2">
-                <CurrencyDollarIcon className="h-10 w-10 text-green-500" /> {coins}
-            </div>
-            {isNewHighScore && (
-                <div className="text-yellow-600 font-bold text-sm">
-                    🏆 You beat your previous best!
+          {currentDay !== null ? (
+            <DaySummary day={currentDay} coins={coins} served={view.served} customersDone={getCustomersDone(view)} strikes={strikes} />
+          ) : (
+            <>
+              <h2 className="text-4xl font-display text-red-500 mb-4 mt-4">Shift Over!</h2>
+              <p className="text-2xl font-bold text-gray-700 mb-2">{feedback}</p>
+
+              <div className={`p-4 rounded-xl mb-6 border-2 ${isNewHighScore ? 'bg-yellow-50 border-yellow-400' : 'bg-gray-50 border-gray-200'}`}>
+                <span className="text-sm uppercase text-gray-500 font-bold">Total Earnings</span>
+                <div className="text-5xl font-black text-gray-800 flex items-center justify-center gap-2 my-2">
+                    <CurrencyDollarIcon className="h-10 w-10 text-green-500" /> {coins}
                 </div>
-            )}
-          </div>
+                {isNewHighScore && (
+                    <div className="text-yellow-600 font-bold text-sm">
+                        🏆 You beat your previous best!
+                    </div>
+                )}
+                {view.mode === GameMode.DAILY && dailyShift && !replay && (
+                    <div className="text-orange-600 font-bold text-sm flex items-center justify-center gap-1">
+                        Today's best {daily.results[dailyShift.challenge.date]?.best ?? coins} · <FireIcon className="h-4 w-4" /> {getStreak(daily, today)} day streak
+                    </div>
+                )}
+                {view.endless && (
+                    <div className="text-sky-600 font-bold text-sm">
+                        Reached level {view.endless.peak}
+                    </div>
+                )}
+              </div>
+            </>
+          )}
           
+          {currentDay !== null && (
+            <button 
+              onClick={() => startCampaignDay(canPlayNextDay ? currentDay + 1 : currentDay)}
+              className="w-full mb-3 bg-emerald-500 text-white py-3 rounded-xl font-bold text-lg hover:bg-emerald-600 transition-colors"
+            >
+              {canPlayNextDay ? `Start Day ${currentDay + 2}` : 'Try Again'}
+            </button>
+          )}
+
+          {!replay && lastRecording && (
+            <div className="flex gap-2 mb-3">
+              <button 
+                onClick={() => startReplay(lastRecording)}
+                className="flex-1 flex items-center justify-center gap-2 bg-indigo-50 text-indigo-600 py-2 rounded-xl font-bold hover:bg-indigo-100 transition-colors"
+              >
+                <FilmIcon className="h-5 w-5" /> Watch Replay
+              </button>
+              <button 
+                onClick={() => exportRecording(lastRecording)}
+                className="flex-1 flex items-center justify-center gap-2 bg-indigo-50 text-indigo-600 py-2 rounded-xl font-bold hover:bg-indigo-100 transition-colors"
+              >
+                <ArrowDownTrayIcon className="h-5 w-5" /> Export
+              </button>
+            </div>
+          )}
+
           <button 
-            onClick={() => setGameState(GameState.MENU)}
+            onClick={() => replay ? stopReplay() : dispatch({ type: 'RETURN_TO_MENU' })}
             className="w-full bg-indigo-500 text-white py-4 rounded-xl font-bold text-xl hover:bg-indigo-600 transition-colors shadow-lg hover:shadow-indigo-500/30"
           >
             Back to Menu
@@ -453,6 +1059,71 @@ const App = () => {
       
       {/* Settings Modal */}
       {isSettingsOpen && renderSettingsModal()}
+      {isSettingsOpen && isBindingsOpen && (
+        <BindingsEditor
+            bindings={settings.bindings}
+            onChange={(bindings) => updateSettings({ ...settings, bindings })}
+            onCapture={inputController.capture}
+            onCancelCapture={inputController.cancelCapture}
+            onClose={() => setIsBindingsOpen(false)}
+        />
+      )}
+
+      {/* Shop */}
+      {isShopOpen && (
+        <Shop
+            progress={shop}
+            onBuyUpgrade={handleBuyUpgrade}
+            onBuySkin={handleBuySkin}
+            onClose={() => setIsShopOpen(false)}
+        />
+      )}
+
+      {/* Campaign */}
+      {isCampaignOpen && (
+        <Campaign
+            progress={campaign}
+            onPlay={startCampaignDay}
+            onClose={() => setIsCampaignOpen(false)}
+        />
+      )}
+
+      {/* Daily Challenge */}
+      {isDailyOpen && (
+        <DailyCalendar
+            progress={daily}
+            today={today}
+            onPlay={startDaily}
+            onClose={() => setIsDailyOpen(false)}
+        />
+      )}
+
+      {/* Achievements */}
+      {isAchievementsOpen && (
+        <Achievements
+            progress={achievements}
+            onClose={() => setIsAchievementsOpen(false)}
+        />
+      )}
+      {/* Stats */}
+      {isStatsOpen && (
+        <Stats
+            progress={stats}
+            onClose={() => setIsStatsOpen(false)}
+        />
+      )}
+
+      <AchievementToasts toasts={toasts} onDismiss={key => setToasts(ts => ts.filter(t => t.key !== key))} />
+
+      {/* Flavor Editor */}
+      {isFlavorEditorOpen && (
+        <FlavorEditor
+            flavors={customFlavors}
+            onSave={handleSaveFlavor}
+            onDelete={handleDeleteFlavor}
+            onClose={() => setIsFlavorEditorOpen(false)}
+        />
+      )}
 
       {/* Confetti Overlay */}
       {isSuccess && gameState === GameState.RESULT && <Confetti />}
@@ -469,17 +1140,56 @@ const App = () => {
                 <IceCream3D 
                     container={currentContainer}
                     layers={currentLayers}
-                    topping={currentTopping}
+                    toppings={currentToppings}
+                    melt={getMeltLevels(view)}
                     isAnimating={gameState === GameState.RESULT}
                     isSuccess={isSuccess}
+                    coneColor={CONE_SKINS[shop.selectedSkin].color}
+                    historyCue={historyCue}
+                    onRemoveScoop={gameState === GameState.PLAYING && !replay ? (index) => dispatch({ type: 'REMOVE_SCOOP', index }) : undefined}
                 />
             </Float>
+            {(gameState === GameState.LOADING_ORDER || gameState === GameState.PLAYING || gameState === GameState.RESULT) && (
+                <CustomerLine tickets={tickets} activeTicketId={activeTicketId} departures={view.departures} />
+            )}
+            {settings.handsOn && gameState === GameState.PLAYING && !replay && (
+                <ScoopingStation
+                    flavors={view.rules.assortment.flavors}
+                    container={currentContainer}
+                    layerCount={currentLayers.length}
+                    onDrop={handleDropScoop}
+                />
+            )}
             <ContactShadows position={[0, -2, 0]} opacity={0.4} scale={10} blur={2.5} far={4} />
           </Suspense>
-          <OrbitControls enableZoom={false} enablePan={false} maxPolarAngle={Math.PI / 2} minPolarAngle={Math.PI / 3} />
+          {/* Dragging scoops and orbiting the camera would fight over the same gesture */}
+          <OrbitControls enableRotate={!settings.handsOn} enableZoom={false} enablePan={false} maxPolarAngle={Math.PI / 2} minPolarAngle={Math.PI / 3} />
         </Canvas>
       </div>
 
+      {/* Replay Bar */}
+      {replay && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[70] bg-black/75 backdrop-blur text-white rounded-2xl shadow-xl px-4 py-2 flex items-center gap-3 pointer-events-auto">
+            <FilmIcon className="h-5 w-5 text-pink-300" />
+            <span className="font-black uppercase tracking-wider text-sm">Replay</span>
+            <span className="font-mono text-xs text-white/70">
+                {Math.floor(Math.min(replay.elapsed, getRecordingDuration(replay.recording)) / 1000)}s / {Math.floor(getRecordingDuration(replay.recording) / 1000)}s
+            </span>
+            {REPLAY_SPEEDS.map(speed => (
+                <button
+                    key={speed}
+                    onClick={() => setReplay(r => r && { ...r, speed })}
+                    className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold transition-colors ${replay.speed === speed ? 'bg-pink-500' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                    {speed > 1 && <ForwardIcon className="h-3 w-3" />} {speed}x
+                </button>
+            ))}
+            <button onClick={stopReplay} className="p-1 rounded-lg bg-white/10 hover:bg-red-500 transition-colors" aria-label="Stop replay">
+                <StopIcon className="h-4 w-4" />
+            </button>
+        </div>
+      )}
+
       {/* UI Overlay */}
       {gameState === GameState.MENU && renderMenu()}
       {gameState === GameState.GAME_OVER && renderGameOver()}
@@ -498,6 +1208,38 @@ const App = () => {
                         <div className="text-xs font-bold text-gray-400 uppercase">Coins</div>
                         <div className="text-xl font-black text-gray-700 leading-none">{coins}</div>
                      </div>
+                     <div className="border-l border-gray-200 pl-3">
+                        <div className="text-xs font-bold text-gray-400 uppercase">Lives</div>
+                        <div className="flex gap-0.5 mt-0.5">
+                            {Array.from({ length: view.rules.strikes }).map((_, i) => (
+                                <HeartIcon 
+                                    key={i} 
+                                    className={`h-5 w-5 transition-colors ${i < strikes ? 'text-red-500' : 'text-gray-300'}`} 
+                                />
+                            ))}
+                        </div>
+                     </div>
+                     {view.endless && (
+                        <div className="border-l border-gray-200 pl-3">
+                            <div className="text-xs font-bold text-gray-400 uppercase">Level</div>
+                            <div className="text-xl font-black text-sky-600 leading-none">{view.endless.level}</div>
+                            <div className="text-[10px] font-bold text-gray-500 whitespace-nowrap">
+                                {view.rules.maxScoops} scoop{view.rules.maxScoops === 1 ? '' : 's'} · {view.rules.timeLimit}s · {describeComplexity(view.rules.complexity)}
+                            </div>
+                        </div>
+                     )}
+                     {view.rules.customerLimit !== undefined && (
+                        <div className="border-l border-gray-200 pl-3">
+                            <div className="text-xs font-bold text-gray-400 uppercase">{currentDay !== null ? `Day ${currentDay + 1}` : 'Customers'}</div>
+                            <div className="text-xl font-black text-gray-700 leading-none">{getCustomersDone(view)}/{view.rules.customerLimit}</div>
+                        </div>
+                     )}
+                     {currentDay !== null && (
+                        <div className="border-l border-gray-200 pl-3">
+                            <div className="text-xs font-bold text-gray-400 uppercase">Target</div>
+                            <div className={`text-xl font-black leading-none ${coins >= CAMPAIGN_DAYS[currentDay].revenueTarget ? 'text-emerald-500' : 'text-gray-700'}`}>{CAMPAIGN_DAYS[currentDay].revenueTarget}</div>
+                        </div>
+                     )}
                 </div>
 
                 <div className="flex gap-2">
@@ -508,47 +1250,27 @@ const App = () => {
                         <Cog6ToothIcon className="h-6 w-6" />
                      </button>
 
-                    {gameState === GameState.PLAYING && (
+                    {gameState === GameState.PLAYING && activeTicket && (
                         <CircularTimer 
-                            timeLeft={timer} 
-                            maxTime={DIFFICULTY_SETTINGS[difficulty].timeLimit} 
+                            timeLeft={activeTicket.patience} 
+                            maxTime={activeTicket.maxPatience} 
                         />
                     )}
                 </div>
             </div>
 
-            {/* Customer Order Bubble */}
-            {customer && gameState !== GameState.LOADING_ORDER && (
-                <div className="absolute top-20 right-4 max-w-[200px] pointer-events-auto z-20">
-                    <div className={`bg-white/95 backdrop-blur rounded-tr-3xl rounded-tl-3xl rounded-bl-3xl shadow-xl p-4 border-4 transition-all duration-300 animate-slide-in ${isSuccess && gameState === GameState.RESULT ? 'border-green-400 scale-105' : 'border-indigo-100'}`}>
-                        <div className="flex items-center gap-2 mb-2">
-                             <div className="h-8 w-8 bg-indigo-100 rounded-full flex items-center justify-center text-lg shadow-inner">😃</div>
-                             <span className="font-bold text-indigo-900 truncate">{customer.name}</span>
-                        </div>
-                        <p className="text-sm text-gray-600 italic mb-3 leading-tight">"{customer.dialogue}"</p>
-                        
-                        <div className="space-y-1 text-sm bg-gray-50 p-2 rounded-lg border border-gray-100">
-                             <div className="flex justify-between">
-                                <span className="text-gray-400 text-xs uppercase font-bold">Base</span>
-                                <span className="font-bold text-gray-700">{customer.order.container}</span>
-                             </div>
-                             <div className="flex justify-between">
-                                <span className="text-gray-400 text-xs uppercase font-bold">Top</span>
-                                <span className="font-bold text-pink-500">{customer.order.topping}</span>
-                             </div>
-                             <div className="border-t border-gray-200 my-1 pt-1">
-                                <div className="text-gray-400 text-xs mb-1 uppercase font-bold">Stack</div>
-                                <div className="flex flex-col-reverse gap-1">
-                                    {customer.order.layers.map((l, i) => (
-                                        <div key={i} className="flex items-center gap-2">
-                                            <div className="w-4 h-4 rounded-full border border-black/10 shadow-sm" style={{backgroundColor: FLAVOR_COLORS[l as Flavor]}}></div>
-                                            <span className="font-bold text-gray-700 text-xs">{l}</span>
-                                        </div>
-                                    ))}
-                                </div>
-                             </div>
-                        </div>
-                    </div>
+            {/* Customer Line */}
+            {tickets.length > 0 && (
+                <div className="absolute top-20 right-4 w-[200px] flex flex-col gap-2 pointer-events-auto z-20">
+                    {tickets.map(ticket => (
+                        <OrderTicket
+                            key={ticket.id}
+                            ticket={ticket}
+                            isActive={ticket.id === activeTicketId}
+                            onSelect={(ticketId) => dispatch({ type: 'SELECT_TICKET', ticketId })}
+                            disabled={gameState !== GameState.PLAYING || replay !== null}
+                        />
+                    ))}
                 </div>
             )}
 
@@ -558,6 +1280,17 @@ const App = () => {
                       <div className={`inline-block backdrop-blur-md text-white px-8 py-4 rounded-3xl text-2xl font-bold animate-bounce shadow-2xl border-2 border-white/20 ${isSuccess ? 'bg-green-500/80' : 'bg-black/70'}`}>
                           {gameState === GameState.LOADING_ORDER ? "Next Customer..." : feedback}
                       </div>
+                      {gameState === GameState.RESULT && lastScore && !lastScore.isPerfect && (
+                          <div className="mt-3 mx-auto max-w-xs bg-white/90 backdrop-blur rounded-2xl p-3 shadow-xl text-left text-sm">
+                              <div className="flex justify-between font-bold text-gray-700 mb-1">
+                                  <span>Accuracy</span>
+                                  <span className="font-mono">{lastScore.accuracy}%</span>
+                              </div>
+                              <ul className="text-xs text-red-500 font-bold space-y-0.5">
+                                  {describeMistakes(lastScore).map(m => <li key={m}>✗ {m}</li>)}
+                              </ul>
+                          </div>
+                      )}
                  </div>
             )}
 
@@ -565,18 +1298,26 @@ const App = () => {
             <div className="mb-4">
                 {gameState === GameState.PLAYING && (
                     <Controls 
-                        onAddFlavor={addFlavor}
-                        onSetContainer={setContainerWithSound}
-                        onSetTopping={setToppingWithSound}
-                        onClear={() => { 
-                            playPopSound();
-                            setCurrentLayers([]); 
-                            setCurrentTopping(Topping.NONE); 
-                        }}
-                        onSubmit={handleServe}
+                        onAddFlavor={(flavor) => dispatch({ type: 'ADD_FLAVOR', flavor })}
+                        onSetContainer={(container) => dispatch({ type: 'SET_CONTAINER', container })}
+                        onToggleTopping={(topping) => dispatch({ type: 'TOGGLE_TOPPING', topping })}
+                        onClear={() => dispatch({ type: 'CLEAR' })}
+                        onSubmit={() => dispatch({ type: 'SERVE' })}
+                        onRemoveScoop={(index) => dispatch({ type: 'REMOVE_SCOOP', index })}
+                        onMoveScoop={(from, to) => dispatch({ type: 'MOVE_SCOOP', from, to })}
+                        onUndo={() => dispatch({ type: 'UNDO' })}
+                        onRedo={() => dispatch({ type: 'REDO' })}
+                        canUndo={view.undoStack.length > 0}
+                        canRedo={view.redoStack.length > 0}
                         currentContainer={currentContainer}
-                        currentTopping={currentTopping}
-                        isProcessing={gameState !== GameState.PLAYING}
+                        currentLayers={currentLayers}
+                        activeToppings={getToppingsOnLayer(build, build.layers.length - 1)}
+                        isProcessing={gameState !== GameState.PLAYING || replay !== null}
+                        flavors={view.rules.assortment.flavors}
+                        toppings={view.rules.assortment.toppings}
+                        containers={view.rules.assortment.containers}
+                        bindings={settings.bindings}
+                        highlightedFlavor={view.rules.assortment.flavors[highlightedFlavor % view.rules.assortment.flavors.length]}
                     />
                 )}
             </div>
@@ -0,0 +1,36 @@
+import React, { useEffect } from 'react';
+import { AchievementDefinition } from '../types';
+
+// Unlock notifications, stacked at the top of the screen during play
+export interface AchievementToast {
+  key: number;
+  achievement: AchievementDefinition;
+}
+
+const TOAST_MS = 4000;
+
+const Toast = ({ achievement, onDone }: { achievement: AchievementDefinition; onDone: () => void }) => {
+  useEffect(() => {
+    const t = setTimeout(onDone, TOAST_MS);
+    return () => clearTimeout(t);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-3 bg-white/95 backdrop-blur rounded-2xl shadow-xl border-2 border-yellow-300 px-4 py-2 animate-bounce-in">
+      <span className="text-3xl">{achievement.icon}</span>
+      <div className="text-left">
+        <div className="text-xs font-black text-yellow-600 uppercase tracking-wider">Achievement Unlocked</div>
+        <div className="font-bold text-gray-700">{achievement.name}</div>
+        <div className="text-xs text-gray-500">{achievement.description}</div>
+      </div>
+    </div>
+  );
+};
+
+export const AchievementToasts: React.FC<{ toasts: AchievementToast[]; onDismiss: (key: number) => void }> = ({ toasts, onDismiss }) => (
+  <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[90] flex flex-col items-center gap-2 pointer-events-none">
+    {toasts.map(t => (
+      <Toast key={t.key} achievement={t.achievement} onDone={() => onDismiss(t.key)} />
+    ))}
+  </div>
+);
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AchievementProgress } from '../types';
+import { ACHIEVEMENTS, getAchievementProgress, getCounter } from '../utils/achievementUtils';
+import { XMarkIcon, StarIcon, LockClosedIcon } from '@heroicons/react/24/solid';
+
+interface AchievementsProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+export const Achievements: React.FC<AchievementsProps> = ({ progress, onClose }) => {
+  const unlockedCount = ACHIEVEMENTS.filter(a => progress.unlocked[a.id]).length;
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto animate-pop-in border-4 border-yellow-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-yellow-600 flex items-center gap-2">
+            <StarIcon className="h-8 w-8 text-yellow-500" /> Achievements
+          </h2>
+          <div className="flex items-center gap-3">
+            <span className="font-black text-gray-700 bg-yellow-100 px-3 py-1 rounded-full font-mono text-sm">
+              {unlockedCount}/{ACHIEVEMENTS.length}
+            </span>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-8 w-8" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {ACHIEVEMENTS.map(achievement => {
+            const unlockedAt = progress.unlocked[achievement.id];
+            const share = getAchievementProgress(progress, achievement);
+            return (
+              <div
+                key={achievement.id}
+                className={`flex items-center gap-3 rounded-xl p-3 border-2 ${unlockedAt ? 'border-yellow-300 bg-yellow-50' : 'border-gray-100 bg-gray-50'}`}
+              >
+                <span className={`text-3xl ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{achievement.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-gray-700 flex items-center gap-1">
+                    {!unlockedAt && <LockClosedIcon className="h-3 w-3 text-gray-400" />} {achievement.name}
+                  </div>
+                  <div className="text-xs text-gray-500">{achievement.description}</div>
+                  {unlockedAt ? (
+                    <div className="text-[10px] font-bold text-yellow-600">Unlocked {new Date(unlockedAt).toLocaleDateString()}</div>
+                  ) : achievement.goal > 1 && (
+                    <div className="mt-1 flex items-center gap-2">
+                      <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${share * 100}%` }} />
+                      </div>
+                      <span className="text-[10px] font-mono text-gray-500">
+                        {Math.min(getCounter(progress, achievement.counter), achievement.goal)}/{achievement.goal}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
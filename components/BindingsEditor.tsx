@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { InputAction, InputBindings } from '../types';
+import { ACTION_LABELS, DEFAULT_BINDINGS, describeKey, describeButton, rebind } from '../utils/inputBindings';
+import type { CapturedInput } from '../services/inputController';
+import { XMarkIcon, PuzzlePieceIcon } from '@heroicons/react/24/solid';
+
+interface BindingsEditorProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  // Hands the next key/button press to the callback instead of the game
+  onCapture: (callback: (input: CapturedInput | null) => void) => void;
+  onCancelCapture: () => void;
+  onClose: () => void;
+}
+
+export const BindingsEditor: React.FC<BindingsEditorProps> = ({ bindings, onChange, onCapture, onCancelCapture, onClose }) => {
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  const startRebind = (action: InputAction) => {
+    setListening(action);
+    onCapture((input) => {
+      setListening(null);
+      if (input) onChange(rebind(bindings, action, input));
+    });
+  };
+
+  const close = () => {
+    onCancelCapture();
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto animate-pop-in border-4 border-indigo-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-indigo-800 flex items-center gap-2">
+            <PuzzlePieceIcon className="h-8 w-8 text-indigo-500" /> Controls
+          </h2>
+          <button onClick={close} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">Click an action, then press a key or gamepad button. Esc cancels.</p>
+
+        <div className="space-y-1 mb-4">
+          {Object.values(InputAction).map(action => {
+            const { keys, buttons } = bindings[action];
+            const isListening = listening === action;
+            return (
+              <button
+                key={action}
+                onClick={() => startRebind(action)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-sm transition-colors ${isListening ? 'bg-indigo-500 text-white' : 'bg-gray-50 hover:bg-indigo-50 text-gray-700'}`}
+              >
+                <span className="font-bold">{ACTION_LABELS[action]}</span>
+                <span className="flex flex-wrap justify-end gap-1">
+                  {isListening ? (
+                    <span className="font-bold animate-pulse">Press a key...</span>
+                  ) : (
+                    <>
+                      {keys.map(k => (
+                        <kbd key={k} className="px-1.5 py-0.5 rounded bg-white border border-gray-300 font-mono text-xs text-gray-700">{describeKey(k)}</kbd>
+                      ))}
+                      {buttons.map(b => (
+                        <span key={b} className="px-1.5 py-0.5 rounded-full bg-indigo-100 font-mono text-xs text-indigo-700">{describeButton(b)}</span>
+                      ))}
+                      {keys.length === 0 && buttons.length === 0 && <span className="text-gray-400">—</span>}
+                    </>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            className="flex-1 py-3 rounded-xl font-bold bg-gray-100 text-gray-600 hover:bg-gray-200"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={close}
+            className="flex-1 py-3 rounded-xl font-bold bg-indigo-500 text-white hover:bg-indigo-600"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
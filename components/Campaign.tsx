@@ -0,0 +1,78 @@
+import React from 'react';
+import { CampaignProgress } from '../types';
+import { CAMPAIGN_DAYS } from '../constants';
+import { getNextDay, getDayUnlockNames, isDayUnlocked, isCampaignComplete } from '../utils/campaignUtils';
+import { XMarkIcon, MapIcon, LockClosedIcon, PlayIcon, CheckIcon, UserGroupIcon, CurrencyDollarIcon } from '@heroicons/react/24/solid';
+
+interface CampaignProps {
+  progress: CampaignProgress;
+  onPlay: (day: number) => void;
+  onClose: () => void;
+}
+
+export const Campaign: React.FC<CampaignProps> = ({ progress, onPlay, onClose }) => {
+  const nextDay = getNextDay(progress);
+  const isComplete = isCampaignComplete(progress);
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto animate-pop-in border-4 border-emerald-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-emerald-700 flex items-center gap-2">
+            <MapIcon className="h-8 w-8 text-emerald-500" /> Campaign
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-3">
+          {isComplete
+            ? 'Every day cleared! Replay any of them to beat your best take.'
+            : 'Serve every customer before closing time and hit the revenue target to open the next day.'}
+        </p>
+
+        <div className="space-y-2">
+          {CAMPAIGN_DAYS.map((day, i) => {
+            const isUnlocked = isDayUnlocked(progress, i);
+            const best = progress.bestRevenue[i];
+            const isNext = i === nextDay && !isComplete;
+            const unlocks = getDayUnlockNames(i);
+            return (
+              <div
+                key={day.name}
+                className={`flex items-center justify-between gap-3 rounded-xl p-3 border-2 ${isNext ? 'border-emerald-300 bg-emerald-50' : 'border-gray-100 bg-gray-50'} ${isUnlocked ? '' : 'opacity-50'}`}
+              >
+                <div className="min-w-0">
+                  <div className="font-bold text-gray-700">
+                    Day {i + 1}: {day.name}
+                    <span className="ml-2 text-xs text-indigo-500 font-mono">{day.difficulty}</span>
+                  </div>
+                  <div className="flex gap-3 text-xs text-gray-500">
+                    <span className="flex items-center gap-1"><UserGroupIcon className="h-3 w-3" /> {day.customers}</span>
+                    <span className="flex items-center gap-1"><CurrencyDollarIcon className="h-3 w-3 text-green-500" /> {day.revenueTarget}</span>
+                    {best !== undefined && <span className="font-bold text-emerald-600">Best {best}</span>}
+                  </div>
+                  {unlocks.length > 0 && (
+                    <div className="text-xs text-pink-500 font-bold truncate">New: {unlocks.join(', ')}</div>
+                  )}
+                </div>
+                {!isUnlocked ? (
+                  <LockClosedIcon className="h-5 w-5 shrink-0 text-gray-400" />
+                ) : (
+                  <button
+                    onClick={() => onPlay(i)}
+                    className={`shrink-0 flex items-center gap-1 px-3 py-2 rounded-xl font-bold text-sm transition-colors ${isNext ? 'bg-emerald-500 text-white hover:bg-emerald-600' : 'bg-white text-emerald-600 border border-emerald-200 hover:bg-emerald-50'}`}
+                  >
+                    {best !== undefined ? <CheckIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+                    {best !== undefined ? 'Replay' : 'Play'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
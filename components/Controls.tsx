@@ -1,43 +1,81 @@
-import React from 'react';
-import { Flavor, Topping, Container } from '../types';
-import { FLAVOR_COLORS } from '../constants';
+import React, { useState } from 'react';
+import { Flavor, Topping, Container, ContainerLayout, InputAction, InputBindings } from '../types';
+import { CONTAINERS } from '../constants';
+import { getFlavorIds, getFlavor } from '../utils/flavorRegistry';
+import { FLAVOR_ACTIONS, describeKey } from '../utils/inputBindings';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, XMarkIcon } from '@heroicons/react/24/solid';
 
 interface ControlsProps {
   onAddFlavor: (flavor: Flavor) => void;
   onSetContainer: (container: Container) => void;
-  onSetTopping: (topping: Topping) => void;
+  onToggleTopping: (topping: Topping) => void;
   onClear: () => void;
   onSubmit: () => void;
+  onRemoveScoop: (index: number) => void;
+  onMoveScoop: (from: number, to: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   currentContainer: Container;
-  currentTopping: Topping;
+  currentLayers: Flavor[];
+  activeToppings: Topping[]; // Toppings on the current top scoop
   isProcessing: boolean;
+  // What's on offer this shift; everything when omitted
+  flavors?: Flavor[];
+  toppings?: Topping[];
+  containers?: Container[];
+  // Keyboard/gamepad: shows key hints and which flavor the highlight is on
+  bindings?: InputBindings;
+  highlightedFlavor?: Flavor;
 }
 
 export const Controls: React.FC<ControlsProps> = ({
   onAddFlavor,
   onSetContainer,
-  onSetTopping,
+  onToggleTopping,
   onClear,
   onSubmit,
+  onRemoveScoop,
+  onMoveScoop,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   currentContainer,
-  currentTopping,
-  isProcessing
+  currentLayers,
+  activeToppings,
+  isProcessing,
+  flavors = getFlavorIds(),
+  toppings = Object.values(Topping),
+  containers = Object.values(Container),
+  bindings,
+  highlightedFlavor
 }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const keyHint = (action: InputAction | undefined) => {
+    const key = action && bindings?.[action].keys[0];
+    return key ? describeKey(key) : null;
+  };
+
   return (
     <div className="flex flex-col gap-4 w-full max-w-2xl mx-auto pointer-events-auto">
       
       {/* Container Selection */}
       <div className="bg-white/90 p-3 rounded-2xl shadow-lg backdrop-blur-sm">
         <h3 className="text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">1. Choose Base</h3>
-        <div className="flex gap-2">
-            {Object.values(Container).map((c) => (
+        <div className="flex flex-wrap gap-2">
+            {containers.map((c) => (
                 <button
                     key={c}
                     onClick={() => onSetContainer(c)}
                     disabled={isProcessing}
-                    className={`flex-1 py-2 rounded-xl font-bold transition-all ${currentContainer === c ? 'bg-orange-400 text-white shadow-md transform scale-105' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    className={`flex-1 min-w-[6rem] py-2 rounded-xl font-bold transition-all ${currentContainer === c ? 'bg-orange-400 text-white shadow-md transform scale-105' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
                 >
                     {c}
+                    <span className="block text-[10px] font-normal opacity-70">
+                        {CONTAINERS[c].layout === ContainerLayout.ROW ? 'side by side' : 'stacked'} · max {CONTAINERS[c].capacity}
+                    </span>
                 </button>
             ))}
         </div>
@@ -47,27 +85,32 @@ export const Controls: React.FC<ControlsProps> = ({
       <div className="bg-white/90 p-3 rounded-2xl shadow-lg backdrop-blur-sm">
         <h3 className="text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">2. Add Scoops</h3>
         <div className="grid grid-cols-5 gap-2">
-            {Object.values(Flavor).map((f) => (
+            {flavors.map(getFlavor).map(({ id: f, name, color }, i) => (
                 <div key={f} className="relative group">
                     <button
                         onClick={() => onAddFlavor(f)}
                         disabled={isProcessing}
-                        className="w-full h-12 rounded-full shadow-sm hover:shadow-md hover:scale-105 transition-all border-2 border-white"
-                        style={{ backgroundColor: FLAVOR_COLORS[f] }}
-                        aria-label={`Add ${f}`}
+                        className={`w-full h-12 rounded-full shadow-sm hover:shadow-md hover:scale-105 transition-all border-2 ${highlightedFlavor === f ? 'border-indigo-500 ring-2 ring-indigo-300' : 'border-white'}`}
+                        style={{ backgroundColor: color }}
+                        aria-label={`Add ${name}`}
                     />
+                    {keyHint(FLAVOR_ACTIONS[i]) && (
+                        <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-0.5 rounded-full bg-white/90 text-[10px] font-black text-gray-600 flex items-center justify-center shadow pointer-events-none">
+                            {keyHint(FLAVOR_ACTIONS[i])}
+                        </span>
+                    )}
                     {/* Enhanced Tooltip with Color Swatch */}
                      <div 
                         className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-3 px-3 py-1.5 bg-white text-gray-800 text-xs font-black rounded-lg opacity-0 group-hover:opacity-100 group-hover:-translate-y-1 group-hover:scale-100 scale-90 transition-all duration-200 pointer-events-none whitespace-nowrap z-50 shadow-xl border-2 flex items-center gap-2" 
-                        style={{ borderColor: FLAVOR_COLORS[f] }}
+                        style={{ borderColor: color }}
                     >
                         {/* Color Swatch */}
-                        <span className="w-3 h-3 rounded-full border border-black/10 shadow-inner" style={{ backgroundColor: FLAVOR_COLORS[f] }}></span>
-                        {f}
+                        <span className="w-3 h-3 rounded-full border border-black/10 shadow-inner" style={{ backgroundColor: color }}></span>
+                        {name}
                          {/* Triangle pointing down */}
                          <div 
                             className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px]" 
-                            style={{ borderTopColor: FLAVOR_COLORS[f] }}
+                            style={{ borderTopColor: color }}
                         ></div>
                     </div>
                 </div>
@@ -75,16 +118,59 @@ export const Controls: React.FC<ControlsProps> = ({
         </div>
       </div>
 
+      {/* Current Stack: drag to reorder, x to remove */}
+      {currentLayers.length > 0 && (
+        <div className="bg-white/90 px-3 py-2 rounded-2xl shadow-lg backdrop-blur-sm">
+          <div className="flex items-center gap-2 overflow-x-auto">
+            <span className="text-[10px] font-bold text-gray-400 uppercase shrink-0">
+                {CONTAINERS[currentContainer].layout === ContainerLayout.ROW ? 'Left' : 'Bottom'}
+            </span>
+            {currentLayers.map((f, i) => {
+                const { name, color } = getFlavor(f);
+                return (
+                    <div
+                        key={i}
+                        draggable={!isProcessing}
+                        onDragStart={() => setDragIndex(i)}
+                        onDragEnd={() => setDragIndex(null)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => {
+                            if (dragIndex !== null) onMoveScoop(dragIndex, i);
+                            setDragIndex(null);
+                        }}
+                        className={`flex items-center gap-1 pl-1 pr-0.5 py-0.5 rounded-full border-2 bg-white text-xs font-bold text-gray-700 cursor-grab shrink-0 transition-all ${dragIndex === i ? 'opacity-40 scale-95' : ''}`}
+                        style={{ borderColor: color }}
+                    >
+                        <span className="w-4 h-4 rounded-full border border-black/10" style={{ backgroundColor: color }}></span>
+                        {name}
+                        <button
+                            onClick={() => onRemoveScoop(i)}
+                            disabled={isProcessing}
+                            className="text-gray-400 hover:text-red-500"
+                            aria-label={`Remove ${name}`}
+                        >
+                            <XMarkIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                );
+            })}
+            <span className="text-[10px] font-bold text-gray-400 uppercase shrink-0">
+                {CONTAINERS[currentContainer].layout === ContainerLayout.ROW ? 'Right' : 'Top'}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Topping Selection */}
       <div className="bg-white/90 p-3 rounded-2xl shadow-lg backdrop-blur-sm">
         <h3 className="text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">3. Top It Off</h3>
-        <div className="flex gap-2">
-            {Object.values(Topping).map((t) => (
+        <div className="flex flex-wrap gap-2">
+            {toppings.map((t) => (
                 <button
                     key={t}
-                    onClick={() => onSetTopping(t)}
+                    onClick={() => onToggleTopping(t)}
                     disabled={isProcessing}
-                    className={`flex-1 py-2 text-sm rounded-xl font-bold transition-all ${currentTopping === t ? 'bg-pink-500 text-white shadow-md transform scale-105' : 'bg-pink-100 text-pink-600 hover:bg-pink-200'}`}
+                    className={`flex-1 min-w-[6rem] py-2 text-sm rounded-xl font-bold transition-all ${activeToppings.includes(t) ? 'bg-pink-500 text-white shadow-md transform scale-105' : 'bg-pink-100 text-pink-600 hover:bg-pink-200'}`}
                 >
                     {t}
                 </button>
@@ -94,12 +180,29 @@ export const Controls: React.FC<ControlsProps> = ({
 
       {/* Actions */}
       <div className="flex gap-3 mt-2">
+        <button
+            onClick={onUndo}
+            disabled={isProcessing || !canUndo}
+            className="px-4 bg-gray-100 text-gray-600 rounded-2xl hover:bg-gray-200 transition-colors disabled:opacity-40"
+            aria-label="Undo"
+        >
+            <ArrowUturnLeftIcon className="h-6 w-6" />
+        </button>
+        <button
+            onClick={onRedo}
+            disabled={isProcessing || !canRedo}
+            className="px-4 bg-gray-100 text-gray-600 rounded-2xl hover:bg-gray-200 transition-colors disabled:opacity-40"
+            aria-label="Redo"
+        >
+            <ArrowUturnRightIcon className="h-6 w-6" />
+        </button>
         <button 
             onClick={onClear} 
             disabled={isProcessing}
             className="flex-1 bg-red-100 text-red-600 py-4 rounded-2xl font-black text-xl hover:bg-red-200 transition-colors"
         >
             TRASH
+            {keyHint(InputAction.TRASH) && <span className="block text-[10px] font-bold opacity-60">{keyHint(InputAction.TRASH)}</span>}
         </button>
         <button 
             onClick={onSubmit}
@@ -107,6 +210,7 @@ export const Controls: React.FC<ControlsProps> = ({
             className="flex-[2] bg-gradient-to-r from-green-400 to-green-600 text-white py-4 rounded-2xl font-black text-xl shadow-lg hover:shadow-green-300/50 hover:scale-[1.02] active:scale-95 transition-all"
         >
             SERVE!
+            {keyHint(InputAction.SERVE) && <span className="block text-[10px] font-bold opacity-70">{keyHint(InputAction.SERVE)}</span>}
         </button>
       </div>
 
@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Color, Group, MeshStandardMaterial, Vector3 } from 'three';
+import { Customer, Ticket } from '../types';
+import { Departure } from '../engine/gameEngine';
+import { AvatarLook, CustomerMood, HatStyle, getAvatarLook, getWaitingMood } from '../utils/avatarUtils';
+
+// Low-poly customers standing in line behind the counter. What they look like
+// comes from the customer, how they feel comes from the ticket - nothing here
+// decides anything, it only acts out the game state.
+
+const FLOOR_Y = -2;
+const LINE_START = new Vector3(-2.3, FLOOR_Y, -2.4); // Front of the line
+const LINE_STEP = new Vector3(-1.1, 0, -1.1);
+const ENTRANCE_X = -8; // Where new customers walk in from, and leavers head to
+const ANGRY_RED = new Color('#E53935');
+
+const getSlot = (index: number, isActive: boolean): [number, number, number] => {
+  const slot = LINE_STEP.clone().multiplyScalar(index).add(LINE_START);
+  return [slot.x, slot.y, slot.z + (isActive ? 0.4 : 0)]; // The one being served steps up
+};
+
+const Hat = ({ style, color }: { style: HatStyle; color: string }) => {
+  const material = <meshStandardMaterial color={color} roughness={0.7} flatShading />;
+  switch (style) {
+    case HatStyle.CAP:
+      return (
+        <group position={[0, 0.22, 0]}>
+          <mesh><sphereGeometry args={[0.31, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2]} />{material}</mesh>
+          <mesh position={[0, 0, 0.3]}><boxGeometry args={[0.34, 0.03, 0.25]} />{material}</mesh>
+        </group>
+      );
+    case HatStyle.TOP_HAT:
+      return (
+        <group position={[0, 0.3, 0]}>
+          <mesh><cylinderGeometry args={[0.45, 0.45, 0.04, 8]} />{material}</mesh>
+          <mesh position={[0, 0.25, 0]}><cylinderGeometry args={[0.26, 0.26, 0.5, 8]} />{material}</mesh>
+        </group>
+      );
+    case HatStyle.BEANIE:
+      return (
+        <group position={[0, 0.18, 0]}>
+          <mesh><sphereGeometry args={[0.33, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2]} />{material}</mesh>
+          <mesh position={[0, 0.36, 0]}><icosahedronGeometry args={[0.08, 0]} />{material}</mesh>
+        </group>
+      );
+    case HatStyle.PIRATE:
+      return (
+        <group position={[0, 0.28, 0]}>
+          <mesh scale={[1, 0.6, 0.55]}><coneGeometry args={[0.5, 0.45, 3]} />{material}</mesh>
+          <mesh position={[0, 0.02, 0.24]}><boxGeometry args={[0.12, 0.1, 0.02]} /><meshStandardMaterial color="#FFFFFF" flatShading /></mesh>
+        </group>
+      );
+    case HatStyle.BERET:
+      return (
+        <mesh position={[0.05, 0.3, 0]} rotation={[0, 0, -0.25]} scale={[1, 0.3, 1]}>
+          <sphereGeometry args={[0.35, 8, 6]} />{material}
+        </mesh>
+      );
+    case HatStyle.NIGHTCAP:
+      return (
+        <group position={[0, 0.25, 0]}>
+          <mesh rotation={[0, 0, 0.6]} position={[0.1, 0.15, 0]}><coneGeometry args={[0.28, 0.7, 6]} />{material}</mesh>
+          <mesh position={[0.38, 0.38, 0]}><icosahedronGeometry args={[0.08, 0]} /><meshStandardMaterial color="#FFFFFF" flatShading /></mesh>
+        </group>
+      );
+    case HatStyle.SUN_HAT:
+      return (
+        <group position={[0, 0.25, 0]}>
+          <mesh><cylinderGeometry args={[0.6, 0.6, 0.03, 10]} />{material}</mesh>
+          <mesh position={[0, 0.1, 0]}><cylinderGeometry args={[0.25, 0.3, 0.2, 8]} />{material}</mesh>
+        </group>
+      );
+    case HatStyle.NONE:
+      return null;
+  }
+};
+
+type Pivot = React.RefObject<Group | null>;
+
+// Legs hang from the hips and arms from the shoulders, so rotating the pivot swings them
+const Leg = ({ x, color, pivot }: { x: number; color: string; pivot: Pivot }) => (
+  <group ref={pivot} position={[x, 0.65, 0]}>
+    <mesh position={[0, -0.32, 0]}>
+      <boxGeometry args={[0.2, 0.65, 0.22]} />
+      <meshStandardMaterial color={color} roughness={0.8} flatShading />
+    </mesh>
+  </group>
+);
+
+const Arm = ({ x, color, hand, pivot }: { x: number; color: string; hand: MeshStandardMaterial; pivot: Pivot }) => (
+  <group ref={pivot} position={[x, 1.45, 0]}>
+    <mesh position={[0, -0.32, 0]}>
+      <capsuleGeometry args={[0.08, 0.45, 2, 6]} />
+      <meshStandardMaterial color={color} roughness={0.7} flatShading />
+    </mesh>
+    <mesh position={[0, -0.65, 0]} material={hand}>
+      <icosahedronGeometry args={[0.09, 0]} />
+    </mesh>
+  </group>
+);
+
+interface CustomerAvatarProps {
+  customer: Customer;
+  mood: CustomerMood;
+  slot: [number, number, number] | null; // null once they're leaving
+}
+
+export const CustomerAvatar: React.FC<CustomerAvatarProps> = ({ customer, mood, slot }) => {
+  const look: AvatarLook = useMemo(() => getAvatarLook(customer), [customer.name, customer.personality]);
+  const rootRef = useRef<Group>(null);
+  const bodyRef = useRef<Group>(null);
+  const headRef = useRef<Group>(null);
+  const leftArmRef = useRef<Group>(null);
+  const rightArmRef = useRef<Group>(null);
+  const leftLegRef = useRef<Group>(null);
+  const rightLegRef = useRef<Group>(null);
+  const browsRef = useRef<Group>(null);
+  const mouthRef = useRef<Group>(null);
+  const faceMaterial = useMemo(() => new MeshStandardMaterial({ color: look.skin, roughness: 0.8, flatShading: true }), [look.skin]);
+  useEffect(() => () => faceMaterial.dispose(), [faceMaterial]);
+
+  const target = useRef(new Vector3(ENTRANCE_X, FLOOR_Y, slot ? slot[2] : LINE_START.z));
+  if (slot) target.current.set(...slot);
+  const [initialPosition] = useState<[number, number, number]>([ENTRANCE_X, FLOOR_Y, target.current.z]);
+
+  // Seconds in the current mood, so reactions start from the beginning each time
+  const moodTime = useRef(0);
+  useEffect(() => { moodTime.current = 0; }, [mood]);
+
+  useFrame((state, delta) => {
+    const root = rootRef.current;
+    if (!root || !bodyRef.current || !headRef.current) return;
+    moodTime.current += delta;
+    const t = state.clock.elapsedTime;
+    const mt = moodTime.current;
+    const isLeaving = mood === CustomerMood.CHEERING || mood === CustomerMood.STORMING_OFF;
+
+    // Cheerers celebrate for a moment first; stormers go straight away.
+    // Either way they're out of sight before the result screen ends.
+    const leaveDelay = mood === CustomerMood.CHEERING ? 0.7 : 0.25;
+    if (isLeaving && mt > leaveDelay) {
+      target.current.x = ENTRANCE_X;
+    }
+    const isWalking = Math.abs(root.position.x - target.current.x) > 0.05;
+    const walkSpeed = isLeaving ? 5 : 3;
+    const step = target.current.x - root.position.x;
+    root.position.x += Math.sign(step) * Math.min(Math.abs(step), walkSpeed * delta);
+    root.position.z += (target.current.z - root.position.z) * (1 - Math.exp(-delta * 6));
+
+    // Face the way they're walking, otherwise the counter
+    const facing = isWalking ? Math.sign(step) * Math.PI / 2 : 0;
+    root.rotation.y += (facing - root.rotation.y) * (1 - Math.exp(-delta * 10));
+
+    let hop = 0;
+    let shake = 0;
+    let armLift = 0.15; // Radians out from the sides
+    let armForward = 0;
+    let browTilt = 0; // Positive = angry V
+    let isSmiling = true;
+    let redness = 0;
+    let legSwing = isWalking ? Math.sin(t * (walkSpeed * 4)) * 0.6 : 0;
+    headRef.current.rotation.y = 0;
+
+    switch (mood) {
+      case CustomerMood.IDLE:
+        headRef.current.rotation.y = Math.sin(t * 0.6) * 0.35;
+        break;
+      case CustomerMood.IMPATIENT:
+        // Arms folded, tapping a foot
+        armLift = 0.5;
+        armForward = -1.3;
+        browTilt = 0.25;
+        isSmiling = false;
+        if (!isWalking) legSwing = Math.max(0, Math.sin(t * 12)) * 0.3;
+        headRef.current.rotation.y = Math.sin(t * 2) * 0.15;
+        break;
+      case CustomerMood.FURIOUS:
+        armLift = 2.2 + Math.sin(t * 18) * 0.25; // Shaking fists
+        browTilt = 0.5;
+        isSmiling = false;
+        redness = 0.6;
+        shake = Math.sin(t * 45) * 0.03;
+        hop = Math.max(0, Math.sin(t * 9)) * 0.08;
+        break;
+      case CustomerMood.CHEERING:
+        armLift = 2.7 + Math.sin(t * 14) * 0.2;
+        hop = mt < leaveDelay ? Math.abs(Math.sin(mt * 7)) * 0.45 : 0;
+        break;
+      case CustomerMood.STORMING_OFF:
+        browTilt = 0.5;
+        isSmiling = false;
+        redness = 0.4;
+        armForward = Math.sin(t * 20) * 0.7;
+        break;
+    }
+
+    const breathe = 1 + Math.sin(t * 1.6) * 0.015;
+    bodyRef.current.position.set(shake, hop + (isWalking ? Math.abs(Math.sin(t * walkSpeed * 4)) * 0.06 : 0), 0);
+    bodyRef.current.scale.set(1, breathe, 1);
+    leftArmRef.current?.rotation.set(armForward, 0, -armLift);
+    rightArmRef.current?.rotation.set(armForward, 0, armLift);
+    leftLegRef.current?.rotation.set(legSwing, 0, 0);
+    rightLegRef.current?.rotation.set(isWalking ? -legSwing : 0, 0, 0);
+    if (browsRef.current) {
+      browsRef.current.children[0].rotation.z = -browTilt;
+      browsRef.current.children[1].rotation.z = browTilt;
+    }
+    if (mouthRef.current) mouthRef.current.rotation.z = isSmiling ? Math.PI : 0;
+    faceMaterial.color.set(look.skin).lerp(ANGRY_RED, redness);
+  });
+
+  const { width, height } = look;
+
+  return (
+    <group ref={rootRef} position={initialPosition} scale={[width * 0.9, height * 0.9, width * 0.9]}>
+      <group ref={bodyRef}>
+        <Leg x={-0.14} color={look.pants} pivot={leftLegRef} />
+        <Leg x={0.14} color={look.pants} pivot={rightLegRef} />
+
+        <mesh position={[0, 1.1, 0]}>
+          <cylinderGeometry args={[0.32, 0.42, 0.9, 7]} />
+          <meshStandardMaterial color={look.shirt} roughness={0.7} flatShading />
+        </mesh>
+
+        <Arm x={-0.4} color={look.shirt} hand={faceMaterial} pivot={leftArmRef} />
+        <Arm x={0.4} color={look.shirt} hand={faceMaterial} pivot={rightArmRef} />
+
+        <group ref={headRef} position={[0, 1.9, 0]}>
+          <mesh material={faceMaterial}>
+            <icosahedronGeometry args={[0.32, 1]} />
+          </mesh>
+          <mesh position={[0, 0.08, -0.03]} scale={[1.05, 0.9, 1.05]}>
+            <sphereGeometry args={[0.31, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2]} />
+            <meshStandardMaterial color={look.hair} roughness={0.9} flatShading />
+          </mesh>
+          {[-0.11, 0.11].map(x => (
+            <mesh key={x} position={[x, 0.04, 0.28]}>
+              <sphereGeometry args={[0.04, 6, 6]} />
+              <meshStandardMaterial color="#111827" />
+            </mesh>
+          ))}
+          <group ref={browsRef}>
+            {[-0.11, 0.11].map(x => (
+              <mesh key={x} position={[x, 0.13, 0.29]}>
+                <boxGeometry args={[0.11, 0.025, 0.02]} />
+                <meshStandardMaterial color={look.hair} />
+              </mesh>
+            ))}
+          </group>
+          <group ref={mouthRef} position={[0, -0.12, 0.29]}>
+            <mesh>
+              <torusGeometry args={[0.07, 0.018, 4, 10, Math.PI]} />
+              <meshStandardMaterial color="#7F1D1D" />
+            </mesh>
+          </group>
+          <Hat style={look.hat} color={look.hatColor} />
+        </group>
+      </group>
+    </group>
+  );
+};
+
+interface CustomerLineProps {
+  tickets: Ticket[];
+  activeTicketId: number | null;
+  departures: Departure[];
+}
+
+// Waiting and leaving customers share one keyed list, so someone who is served
+// keeps their spot (and their avatar) as they turn to go
+export const CustomerLine: React.FC<CustomerLineProps> = ({ tickets, activeTicketId, departures }) => {
+  const avatars = [
+    ...tickets.map((ticket, index) => ({
+      ticket,
+      mood: getWaitingMood(ticket.patience, ticket.maxPatience),
+      slot: getSlot(index, ticket.id === activeTicketId)
+    })),
+    ...departures.map(({ ticket, isHappy }) => ({
+      ticket,
+      mood: isHappy ? CustomerMood.CHEERING : CustomerMood.STORMING_OFF,
+      slot: null
+    }))
+  ];
+
+  return (
+    <group>
+      {avatars.map(({ ticket, mood, slot }) => (
+        <CustomerAvatar key={ticket.id} customer={ticket.customer} mood={mood} slot={slot} />
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { DailyProgress } from '../types';
+import { DAILY_CUSTOMERS } from '../constants';
+import { fromDateKey, toDateKey, getDailyChallenge, getStreak } from '../utils/dailyUtils';
+import { XMarkIcon, CalendarDaysIcon, ChevronLeftIcon, ChevronRightIcon, FireIcon, PlayIcon } from '@heroicons/react/24/solid';
+
+interface DailyCalendarProps {
+  progress: DailyProgress;
+  today: string; // Date key
+  onPlay: () => void;
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Date keys for a month grid, padded with nulls so the 1st lands on its weekday
+const getMonthCells = (year: number, month: number): (string | null)[] => {
+  const first = new Date(year, month, 1).getDay();
+  const days = new Date(year, month + 1, 0).getDate();
+  return [
+    ...Array.from({ length: first }, () => null),
+    ...Array.from({ length: days }, (_, i) => toDateKey(new Date(year, month, i + 1)))
+  ];
+};
+
+export const DailyCalendar: React.FC<DailyCalendarProps> = ({ progress, today, onPlay, onClose }) => {
+  const [monthOffset, setMonthOffset] = useState(0); // 0 = this month, -1 = last month...
+  const now = fromDateKey(today);
+  const shown = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+  const cells = getMonthCells(shown.getFullYear(), shown.getMonth());
+  const challenge = getDailyChallenge(today);
+  const todayResult = progress.results[today];
+  const streak = getStreak(progress, today);
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-md max-h-full overflow-y-auto animate-pop-in border-4 border-orange-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-orange-600 flex items-center gap-2">
+            <CalendarDaysIcon className="h-8 w-8 text-orange-500" /> Daily Scoop
+          </h2>
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1 font-black text-gray-700 bg-orange-100 px-3 py-1 rounded-full" title="Days in a row">
+              <FireIcon className="h-5 w-5 text-orange-500" /> {streak}
+            </span>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-8 w-8" />
+            </button>
+          </div>
+        </div>
+
+        {/* Today */}
+        <div className="bg-orange-50 border-2 border-orange-200 rounded-2xl p-4 mb-4 text-center">
+          <div className="text-sm font-bold text-gray-500">
+            Today: {challenge.difficulty} · {DAILY_CUSTOMERS} customers
+          </div>
+          <div className="text-xs text-gray-500 mb-3">Same customers for everyone, all day.</div>
+          <button
+            onClick={onPlay}
+            className="w-full flex items-center justify-center gap-2 bg-orange-500 text-white py-3 rounded-xl font-bold hover:bg-orange-600 transition-colors"
+          >
+            <PlayIcon className="h-5 w-5" /> {todayResult ? `Play Again (best ${todayResult.best})` : "Play Today's Challenge"}
+          </button>
+        </div>
+
+        {/* Past results */}
+        <div className="flex justify-between items-center mb-2">
+          <button onClick={() => setMonthOffset(m => m - 1)} className="p-1 rounded-lg text-gray-500 hover:bg-gray-100" aria-label="Previous month">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span className="font-bold text-gray-700">
+            {shown.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          <button
+            onClick={() => setMonthOffset(m => m + 1)}
+            disabled={monthOffset >= 0}
+            className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+            aria-label="Next month"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {WEEKDAYS.map((d, i) => (
+            <div key={i} className="text-xs font-bold text-gray-400">{d}</div>
+          ))}
+          {cells.map((date, i) => {
+            if (!date) return <div key={i} />;
+            const result = progress.results[date];
+            const isToday = date === today;
+            const isFuture = date > today;
+            return (
+              <div
+                key={date}
+                title={result ? `${date}: best ${result.best}, played ${result.plays}x` : date}
+                className={`aspect-square rounded-lg flex flex-col items-center justify-center text-xs font-bold border-2 ${isToday ? 'border-orange-400' : 'border-transparent'} ${result ? 'bg-orange-400 text-white' : isFuture ? 'bg-gray-50 text-gray-300' : 'bg-gray-100 text-gray-500'}`}
+              >
+                <span>{fromDateKey(date).getDate()}</span>
+                {result && <span className="text-[9px] leading-none font-mono">{result.best}</span>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
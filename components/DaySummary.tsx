@@ -0,0 +1,68 @@
+import React from 'react';
+import { CAMPAIGN_DAYS } from '../constants';
+import { getDayUnlockNames, isDayCleared } from '../utils/campaignUtils';
+import { CurrencyDollarIcon, UserGroupIcon, HeartIcon } from '@heroicons/react/24/solid';
+
+interface DaySummaryProps {
+  day: number;
+  coins: number;
+  served: number;
+  customersDone: number;
+  strikes: number;
+}
+
+// End-of-day report for a campaign shift; the game over screen adds the buttons
+export const DaySummary: React.FC<DaySummaryProps> = ({ day, coins, served, customersDone, strikes }) => {
+  const { name, revenueTarget } = CAMPAIGN_DAYS[day];
+  const isCleared = isDayCleared(day, coins, strikes);
+  const tomorrow = isCleared ? getDayUnlockNames(day + 1) : [];
+  const progress = Math.min(1, coins / revenueTarget);
+
+  return (
+    <div className="mb-6">
+      <h2 className={`text-4xl font-display mb-1 mt-4 ${isCleared ? 'text-emerald-500' : 'text-red-500'}`}>
+        {isCleared ? 'Day Cleared!' : strikes === 0 ? 'Closed Early!' : 'Target Missed'}
+      </h2>
+      <p className="text-sm font-bold text-gray-500 mb-4">Day {day + 1}: {name}</p>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-2">
+          <UserGroupIcon className="h-5 w-5 mx-auto text-indigo-500" />
+          <div className="text-xl font-black text-gray-700">{served}/{customersDone}</div>
+          <div className="text-xs font-bold text-gray-400 uppercase">Served</div>
+        </div>
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-2">
+          <CurrencyDollarIcon className="h-5 w-5 mx-auto text-green-500" />
+          <div className="text-xl font-black text-gray-700">{coins}</div>
+          <div className="text-xs font-bold text-gray-400 uppercase">Revenue</div>
+        </div>
+        <div className="bg-gray-50 border border-gray-200 rounded-xl p-2">
+          <HeartIcon className="h-5 w-5 mx-auto text-red-500" />
+          <div className="text-xl font-black text-gray-700">{strikes}</div>
+          <div className="text-xs font-bold text-gray-400 uppercase">Lives Left</div>
+        </div>
+      </div>
+
+      {/* Revenue against the target */}
+      <div className="text-left">
+        <div className="flex justify-between text-xs font-bold text-gray-500 mb-1">
+          <span>Target</span>
+          <span className="font-mono">{coins} / {revenueTarget}</span>
+        </div>
+        <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full rounded-full transition-all duration-700 ${coins >= revenueTarget ? 'bg-emerald-500' : 'bg-amber-400'}`}
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {tomorrow.length > 0 && (
+        <p className="mt-3 text-sm font-bold text-pink-500">New tomorrow: {tomorrow.join(', ')}</p>
+      )}
+      {isCleared && day === CAMPAIGN_DAYS.length - 1 && (
+        <p className="mt-3 text-sm font-bold text-yellow-600">🏆 You finished the campaign!</p>
+      )}
+    </div>
+  );
+};
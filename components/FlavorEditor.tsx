@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Flavor, FlavorDefinition, InclusionKind } from '../types';
+import { WAVEFORMS, createFlavorId } from '../utils/flavorRegistry';
+import { playFlavorSound, NOTES } from '../utils/soundUtils';
+import { XMarkIcon, BeakerIcon, PencilSquareIcon, TrashIcon, PlusIcon, SpeakerWaveIcon } from '@heroicons/react/24/solid';
+
+interface FlavorEditorProps {
+  flavors: FlavorDefinition[]; // Custom flavors only; built-ins aren't editable
+  onSave: (flavor: FlavorDefinition) => void;
+  onDelete: (id: Flavor) => void;
+  onClose: () => void;
+}
+
+// A flavor being edited; new ones get their id when saved
+type FlavorDraft = Omit<FlavorDefinition, 'id'> & { id?: Flavor };
+
+const NEW_FLAVOR: FlavorDraft = {
+  name: '',
+  color: '#F48FB1',
+  note: NOTES.C5,
+  waveform: 'sine'
+};
+
+// Sizes that suit each kind of mix-in; the editor only exposes color and amount
+const INCLUSION_SIZES: Record<InclusionKind, number> = {
+  [InclusionKind.CHIPS]: 0.08,
+  [InclusionKind.FLECKS]: 0.06,
+  [InclusionKind.SPECKS]: 0.025,
+};
+
+const MELT_SPEEDS = [
+  { label: 'Slow', rate: 0.7 },
+  { label: 'Normal', rate: 1 },
+  { label: 'Fast', rate: 1.4 },
+];
+
+export const FlavorEditor: React.FC<FlavorEditorProps> = ({ flavors, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<FlavorDraft | null>(null);
+
+  const update = (changes: Partial<FlavorDraft>) => setDraft(d => d && { ...d, ...changes });
+
+  const setInclusionKind = (kind: InclusionKind | '') => setDraft(d => d && {
+    ...d,
+    inclusions: kind ? { color: '#3E2723', density: 0.3, ...d.inclusions, kind, size: INCLUSION_SIZES[kind] } : undefined
+  });
+
+  const save = () => {
+    if (!draft || !draft.name.trim()) return;
+    const name = draft.name.trim();
+    onSave({ ...draft, name, id: draft.id || createFlavorId(name), isCustom: true });
+    setDraft(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto animate-pop-in border-4 border-pink-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-pink-600 flex items-center gap-2">
+            <BeakerIcon className="h-8 w-8 text-pink-500" /> Flavor Lab
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                maxLength={24}
+                onChange={(e) => update({ name: e.target.value })}
+                className="w-full mt-1 px-3 py-2 rounded-xl border-2 border-gray-100 focus:border-pink-300 outline-none font-bold text-gray-700"
+                placeholder="Bubblegum Blast"
+              />
+            </div>
+
+            <div className="flex gap-4">
+              <div>
+                <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Color</label>
+                <input
+                  type="color"
+                  value={draft.color}
+                  onChange={(e) => update({ color: e.target.value })}
+                  className="block mt-1 w-16 h-10 rounded-lg cursor-pointer"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Mix-ins</label>
+                <div className="flex items-center gap-2 mt-1">
+                  <select
+                    value={draft.inclusions?.kind ?? ''}
+                    onChange={(e) => setInclusionKind(e.target.value as InclusionKind | '')}
+                    className="flex-1 px-3 py-2 rounded-xl border-2 border-gray-100 font-bold text-gray-700"
+                  >
+                    <option value="">None</option>
+                    {Object.values(InclusionKind).map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                  </select>
+                  {draft.inclusions && (
+                    <input
+                      type="color"
+                      value={draft.inclusions.color}
+                      onChange={(e) => update({ inclusions: { ...draft.inclusions!, color: e.target.value } })}
+                      className="w-10 h-10 rounded-lg cursor-pointer"
+                    />
+                  )}
+                </div>
+                {draft.inclusions && (
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="0.6"
+                    step="0.05"
+                    value={draft.inclusions.density}
+                    onChange={(e) => update({ inclusions: { ...draft.inclusions!, density: parseFloat(e.target.value) } })}
+                    className="w-full mt-2 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                    aria-label="Mix-in amount"
+                  />
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Texture</label>
+              <div className="flex items-center gap-2 mt-1 text-xs font-bold text-gray-400">
+                <span>Smooth</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.15"
+                  step="0.01"
+                  value={draft.lumpiness ?? 0.06}
+                  onChange={(e) => update({ lumpiness: parseFloat(e.target.value) })}
+                  className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                />
+                <span>Lumpy</span>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Melts</label>
+              <div className="flex gap-2 mt-1">
+                {MELT_SPEEDS.map(({ label, rate }) => (
+                  <button
+                    key={label}
+                    onClick={() => update({ meltRate: rate })}
+                    className={`flex-1 py-2 text-sm rounded-xl font-bold transition-colors ${(draft.meltRate ?? 1) === rate ? 'bg-pink-500 text-white' : 'bg-pink-50 text-pink-600 hover:bg-pink-100'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Note</label>
+                <select
+                  value={draft.note}
+                  onChange={(e) => update({ note: parseFloat(e.target.value) })}
+                  className="w-full mt-1 px-3 py-2 rounded-xl border-2 border-gray-100 font-bold text-gray-700"
+                >
+                  {Object.entries(NOTES).map(([note, freq]) => (
+                    <option key={note} value={freq}>{note}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="text-sm font-bold text-gray-500 uppercase tracking-wide">Sound</label>
+                <select
+                  value={draft.waveform}
+                  onChange={(e) => update({ waveform: e.target.value as OscillatorType })}
+                  className="w-full mt-1 px-3 py-2 rounded-xl border-2 border-gray-100 font-bold text-gray-700"
+                >
+                  {WAVEFORMS.map(w => <option key={w} value={w}>{w}</option>)}
+                </select>
+              </div>
+              <button
+                onClick={() => playFlavorSound(draft)}
+                className="p-3 rounded-xl bg-pink-100 text-pink-600 hover:bg-pink-200"
+                aria-label="Preview sound"
+              >
+                <SpeakerWaveIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="flex-1 py-3 rounded-xl font-bold bg-gray-100 text-gray-600 hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={save}
+                disabled={!draft.name.trim()}
+                className={`flex-[2] py-3 rounded-xl font-bold transition-colors ${draft.name.trim() ? 'bg-pink-500 text-white hover:bg-pink-600' : 'bg-gray-200 text-gray-400 cursor-not-allowed'}`}
+              >
+                Save Flavor
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2 mb-4">
+              {flavors.length === 0 && (
+                <p className="text-sm text-gray-400 text-center py-4">No custom flavors yet. Invent one!</p>
+              )}
+              {flavors.map(flavor => (
+                <div key={flavor.id} className="flex items-center gap-3 bg-gray-50 border border-gray-100 rounded-xl p-3">
+                  <span className="w-8 h-8 rounded-full border border-black/10 shadow-inner" style={{ backgroundColor: flavor.color }}></span>
+                  <span className="flex-1 font-bold text-gray-700">{flavor.name}</span>
+                  <button onClick={() => setDraft(flavor)} className="p-2 text-gray-400 hover:text-pink-500" aria-label={`Edit ${flavor.name}`}>
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
+                  <button onClick={() => onDelete(flavor.id)} className="p-2 text-gray-400 hover:text-red-500" aria-label={`Delete ${flavor.name}`}>
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setDraft(NEW_FLAVOR)}
+              className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-bold bg-pink-500 text-white hover:bg-pink-600 transition-colors"
+            >
+              <PlusIcon className="h-5 w-5" /> New Flavor
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
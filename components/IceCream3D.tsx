@@ -1,23 +1,35 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Sparkles } from '@react-three/drei';
-import { Mesh, Group, MeshBasicMaterial } from 'three';
-import { Container, Flavor, Topping } from '../types';
-import { FLAVOR_COLORS } from '../constants';
+import { Mesh, Group, MeshBasicMaterial, Vector3 } from 'three';
+import { Container, ContainerLayout, Flavor, Topping, ToppingPlacement } from '../types';
+import { CONTAINERS } from '../constants';
+import { getFlavor } from '../utils/flavorRegistry';
+import { SCOOP_GEOMETRY, useScoopMaterial } from '../utils/scoopMaterial';
+
+// Undo/redo feedback; a new key replays the cue
+export interface HistoryCue {
+  key: number;
+  isUndo: boolean;
+}
 
 interface IceCream3DProps {
   container: Container;
   layers: Flavor[];
-  topping: Topping;
+  toppings: ToppingPlacement[];
+  melt?: number[]; // Per scoop, 0 - 1
   isAnimating?: boolean;
   isSuccess?: boolean;
+  coneColor?: string;
+  historyCue?: HistoryCue | null;
+  onRemoveScoop?: (index: number) => void; // Omit to make scoops unclickable
 }
 
-const Cone = () => (
+const Cone = ({ color }: { color: string }) => (
   // Rotated 180 degrees on X axis so the wide part is up
   <mesh position={[0, -1.5, 0]} rotation={[Math.PI, 0, 0]}>
     <coneGeometry args={[0.8, 3, 32]} />
-    <meshStandardMaterial color="#F4A460" roughness={0.6} />
+    <meshStandardMaterial color={color} roughness={0.6} />
   </mesh>
 );
 
@@ -34,10 +46,111 @@ const Cup = () => (
   </group>
 );
 
+const SugarCone = () => (
+  <group position={[0, -1.3, 0]}>
+    <mesh rotation={[Math.PI, 0, 0]}>
+      <coneGeometry args={[0.7, 2.6, 32]} />
+      <meshStandardMaterial color="#E8B96A" roughness={0.7} />
+    </mesh>
+    {/* Chocolate-dipped rim */}
+    <mesh position={[0, 1.1, 0]}>
+      <cylinderGeometry args={[0.73, 0.6, 0.45, 32]} />
+      <meshStandardMaterial color="#4A2511" roughness={0.3} />
+    </mesh>
+  </group>
+);
+
+const WaffleBowl = () => (
+  <group position={[0, -0.5, 0]}>
+    {/* Lower half of a sphere, with a wireframe copy over it for the waffle grid */}
+    <mesh>
+      <sphereGeometry args={[1.3, 32, 16, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2]} />
+      <meshStandardMaterial color="#D9A45B" roughness={0.8} side={2} />
+    </mesh>
+    <mesh scale={1.01}>
+      <sphereGeometry args={[1.3, 12, 6, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2]} />
+      <meshStandardMaterial color="#A8692E" wireframe />
+    </mesh>
+    <mesh rotation={[Math.PI / 2, 0, 0]}>
+      <torusGeometry args={[1.3, 0.08, 8, 32]} />
+      <meshStandardMaterial color="#C98E45" roughness={0.8} />
+    </mesh>
+  </group>
+);
+
+const SundaeGlass = () => (
+  <group>
+    <mesh position={[0, -0.3, 0]}>
+      <cylinderGeometry args={[1.1, 0.5, 1.4, 32, 1, true]} />
+      <meshStandardMaterial color="#E3F2FD" transparent opacity={0.35} roughness={0.05} side={2} />
+    </mesh>
+    <mesh position={[0, -1.5, 0]}>
+      <cylinderGeometry args={[0.12, 0.12, 1.0, 16]} />
+      <meshStandardMaterial color="#E3F2FD" transparent opacity={0.5} roughness={0.05} />
+    </mesh>
+    <mesh position={[0, -2.0, 0]}>
+      <cylinderGeometry args={[0.7, 0.7, 0.08, 32]} />
+      <meshStandardMaterial color="#E3F2FD" transparent opacity={0.5} roughness={0.05} />
+    </mesh>
+  </group>
+);
+
+const BananaSplitBoat = () => (
+  <group position={[0, -0.9, 0]}>
+    <mesh>
+      <boxGeometry args={[3.9, 0.4, 1.5]} />
+      <meshStandardMaterial color="#FAFAFA" roughness={0.3} />
+    </mesh>
+    {/* Banana halves along both sides */}
+    {[-0.6, 0.6].map(z => (
+      <mesh key={z} position={[0, 0.3, z]} rotation={[0, 0, Math.PI / 2]}>
+        <capsuleGeometry args={[0.2, 3.0, 4, 12]} />
+        <meshStandardMaterial color="#FFE082" roughness={0.6} />
+      </mesh>
+    ))}
+  </group>
+);
+
+const ContainerModel = ({ container, coneColor }: { container: Container; coneColor: string }) => {
+  switch (container) {
+    case Container.CONE: return <Cone color={coneColor} />;
+    case Container.CUP: return <Cup />;
+    case Container.SUGAR_CONE: return <SugarCone />;
+    case Container.WAFFLE_BOWL: return <WaffleBowl />;
+    case Container.SUNDAE_GLASS: return <SundaeGlass />;
+    case Container.BANANA_SPLIT: return <BananaSplitBoat />;
+  }
+};
+
+// Where a scoop slot sits, from the container's declared layout
+export const getSlotPosition = (container: Container, index: number): [number, number, number] => {
+  const { layout, capacity, baseY, spacing } = CONTAINERS[container];
+  if (layout === ContainerLayout.ROW) return [(index - (capacity - 1) / 2) * spacing, baseY, 0];
+  return [0, baseY + index * spacing, 0];
+};
+
+// Stacked scoops taper slightly; side-by-side ones are smaller so they fit the boat
+const getSlotScale = (container: Container, index: number) => {
+  return CONTAINERS[container].layout === ContainerLayout.ROW ? 0.75 : 1 - (index * 0.05);
+};
+
+// How far a fully melted scoop's top sinks, relative to its size. The bottom stays put.
+const SAG = 0.3;
+
+// Stacked scoops sink as the ones under them slump
+const getSagBelow = (container: Container, melt: number[], index: number) => {
+  if (CONTAINERS[container].layout === ContainerLayout.ROW) return 0;
+  let sag = 0;
+  for (let i = 0; i < index; i++) sag += SAG * (melt[i] ?? 0) * getSlotScale(container, i);
+  return sag;
+};
+
 interface ScoopProps { 
   flavor: Flavor; 
   position: [number, number, number];
-  scale?: number 
+  scale?: number;
+  melt?: number;
+  onSelect?: () => void;
 }
 
 const Shockwave = ({ color }: { color: string }) => {
@@ -76,13 +189,76 @@ const ScoopBurst = ({ color }: { color: string }) => {
   );
 };
 
-const Scoop: React.FC<ScoopProps> = ({ flavor, position, scale = 1 }) => {
+// Runs of melted ice cream hanging off the bottom edge of a scoop
+const DRIPS = [
+  { angle: 0.3, length: 0.5 },
+  { angle: 1.9, length: 0.8 },
+  { angle: 3.4, length: 0.6 },
+  { angle: 5.0, length: 1.0 },
+];
+
+const Drips = ({ color, melt, scale }: { color: string; melt: React.MutableRefObject<number>; scale: number }) => {
+  const refs = useRef<(Mesh | null)[]>([]);
+
+  useFrame(() => {
+    const flow = Math.max(0, melt.current - 0.1) / 0.9; // A little softening before anything runs
+    refs.current.forEach((mesh, i) => {
+      if (!mesh) return;
+      const length = DRIPS[i].length * flow;
+      mesh.visible = length > 0.02;
+      mesh.scale.set(1, Math.max(0.001, length), 1);
+      mesh.position.y = -0.3 * scale - length / 2;
+    });
+  });
+
+  return (
+    <>
+      {DRIPS.map(({ angle }, i) => (
+        <mesh
+          key={i}
+          ref={el => { refs.current[i] = el; }}
+          position={[Math.cos(angle) * 0.78 * scale, 0, Math.sin(angle) * 0.78 * scale]}
+          visible={false}
+        >
+          <capsuleGeometry args={[0.07, 1, 4, 8]} />
+          <meshStandardMaterial color={color} roughness={0.15} metalness={0.1} />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+const Scoop: React.FC<ScoopProps> = ({ flavor, position, scale = 1, melt = 0, onSelect }) => {
+  const { color } = getFlavor(flavor);
+  const [seed] = useState(() => Math.random() * 100); // So two scoops of one flavor aren't identical
+  const material = useScoopMaterial(flavor, seed);
+  const groupRef = useRef<Group>(null);
   const meshRef = useRef<Mesh>(null);
   const time = useRef(0);
+  const shownMelt = useRef(melt); // Eased towards `melt`, which only moves once a second
+  const target = useMemo(() => new Vector3(...position), [position[0], position[1], position[2]]);
+  const [isHovered, setIsHovered] = useState(false);
+  // Only the first position is passed to three; after that useFrame slides towards `target`
+  const [initialPosition] = useState(position);
+
+  // Don't leave a pointer cursor behind when the scoop is removed under it
+  useEffect(() => {
+    if (!isHovered) return;
+    document.body.style.cursor = 'pointer';
+    return () => { document.body.style.cursor = 'auto'; };
+  }, [isHovered]);
 
   useFrame((state, delta) => {
     // Add delta time
     time.current += delta;
+
+    // Slide to the slot when the stack is reordered or the container changes
+    groupRef.current?.position.lerp(target, 1 - Math.exp(-delta * 12));
+    shownMelt.current += (melt - shownMelt.current) * (1 - Math.exp(-delta * 2));
+    const m = shownMelt.current;
+    material.roughness = 0.8 - 0.6 * m; // Wet and shiny as it goes
+    material.emissive.set(isHovered ? '#FF5252' : '#000000');
+    material.emissiveIntensity = isHovered ? 0.25 : 0;
     
     if (meshRef.current) {
         // Elastic bounce animation: 
@@ -99,22 +275,108 @@ const Scoop: React.FC<ScoopProps> = ({ flavor, position, scale = 1 }) => {
             if (bounce < 0) bounce = 0;
         }
 
-        const final = scale * bounce;
-        meshRef.current.scale.set(final, final, final);
+        // Slumps as it melts: shorter and wider, bottom where it was
+        const final = scale * bounce * (isHovered ? 1.06 : 1);
+        meshRef.current.scale.set(final * (1 + 0.15 * m), final * (1 - SAG * m / (2 * 0.9)), final * (1 + 0.15 * m));
+        meshRef.current.position.y = -SAG * m * scale / 2;
     }
   });
 
   return (
-    <group position={position}>
-      <mesh ref={meshRef} scale={[0, 0, 0]}>
-        <sphereGeometry args={[0.9, 32, 32]} />
-        <meshStandardMaterial color={FLAVOR_COLORS[flavor]} roughness={0.8} metalness={0.1} />
-      </mesh>
-      <ScoopBurst color={FLAVOR_COLORS[flavor]} />
+    <group ref={groupRef} position={initialPosition}>
+      <mesh
+        ref={meshRef}
+        scale={[0, 0, 0]}
+        geometry={SCOOP_GEOMETRY}
+        material={material}
+        onClick={onSelect && ((e) => { e.stopPropagation(); onSelect(); })}
+        onPointerOver={onSelect && ((e) => { e.stopPropagation(); setIsHovered(true); })}
+        onPointerOut={() => setIsHovered(false)}
+      />
+      <Drips color={color} melt={shownMelt} scale={scale} />
+      <ScoopBurst color={color} />
+    </group>
+  );
+};
+
+// A removed scoop popping up and away before it disappears
+const RemovedScoop = ({ flavor, position, onDone }: { flavor: Flavor; position: [number, number, number]; onDone: () => void }) => {
+  const groupRef = useRef<Group>(null);
+  const material = useScoopMaterial(flavor);
+  const time = useRef(0);
+  const isDone = useRef(false);
+
+  useFrame((state, delta) => {
+    if (isDone.current) return;
+    time.current += delta;
+    const t = Math.min(1, time.current / 0.35);
+    if (groupRef.current) {
+      groupRef.current.position.set(position[0] + t * 1.2, position[1] + t * 1.5, position[2]);
+      const s = Math.max(0.001, 1 - t);
+      groupRef.current.scale.set(s, s, s);
+    }
+    if (t >= 1) {
+      isDone.current = true;
+      onDone();
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={position}>
+      <mesh geometry={SCOOP_GEOMETRY} material={material} />
     </group>
   );
 };
 
+let nextScoopKey = 0;
+
+const HISTORY_CUE_SECONDS = 0.3;
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+const isSameStack = (a: Flavor[], b: Flavor[]) => a.length === b.length && a.every((f, i) => f === b[i]);
+
+// Works out which single edit turned `prev` into `next` so each scoop keeps its key.
+// Anything more drastic (trash, multi-step undo) just gets fresh keys.
+const matchScoopKeys = (prev: Flavor[], prevKeys: number[], next: Flavor[]): { keys: number[]; removed: number | null } => {
+  if (isSameStack(prev, next)) return { keys: prevKeys, removed: null };
+  if (next.length === prev.length + 1 && isSameStack(prev, next.slice(0, -1))) {
+    return { keys: [...prevKeys, nextScoopKey++], removed: null };
+  }
+  if (next.length === prev.length - 1) {
+    for (let i = 0; i < prev.length; i++) {
+      if (isSameStack(prev.filter((_, j) => j !== i), next)) return { keys: prevKeys.filter((_, j) => j !== i), removed: i };
+    }
+  }
+  if (next.length === prev.length) {
+    for (let from = 0; from < prev.length; from++) {
+      for (let to = 0; to < prev.length; to++) {
+        if (from !== to && isSameStack(moveItem(prev, from, to), next)) return { keys: moveItem(prevKeys, from, to), removed: null };
+      }
+    }
+  }
+  return { keys: next.map(() => nextScoopKey++), removed: null };
+};
+
+interface DepartingScoop {
+  key: number;
+  flavor: Flavor;
+  position: [number, number, number];
+}
+
+const SAUCE_COLORS: Partial<Record<Topping, string>> = {
+  [Topping.CHOCOLATE_SAUCE]: '#4A2511',
+  [Topping.CARAMEL]: '#C8782A'
+};
+
+// Toppings that sit on top of whipped cream rather than inside it
+const RAISED_BY_CREAM = [Topping.CHERRY, Topping.WAFER_STICK];
+
 const ToppingMesh = ({ type, position }: { type: Topping; position: [number, number, number] }) => {
   const groupRef = useRef<Group>(null);
   const anim = useRef(0);
@@ -130,8 +392,6 @@ const ToppingMesh = ({ type, position }: { type: Topping; position: [number, num
     }
   });
 
-  if (type === Topping.NONE) return null;
-
   return (
     <group position={position} ref={groupRef} scale={[0,0,0]}>
       {/* Visual Burst for Topping */}
@@ -144,6 +404,57 @@ const ToppingMesh = ({ type, position }: { type: Topping; position: [number, num
         </mesh>
       )}
 
+      {(type === Topping.CHOCOLATE_SAUCE || type === Topping.CARAMEL) && (
+        // A glossy cap over the top of the scoop, plus a couple of drips
+        <group position={[0, -0.8, 0]}>
+          <mesh scale={1.04}>
+            <sphereGeometry args={[0.9, 32, 16, 0, Math.PI * 2, 0, Math.PI / 3]} />
+            <meshStandardMaterial color={SAUCE_COLORS[type]} roughness={0.15} metalness={0.1} />
+          </mesh>
+          {[0.4, 2.2, 4.1].map((angle, i) => (
+            <mesh key={i} position={[Math.cos(angle) * 0.8, 0.3, Math.sin(angle) * 0.8]}>
+              <capsuleGeometry args={[0.06, 0.25 + i * 0.08, 4, 8]} />
+              <meshStandardMaterial color={SAUCE_COLORS[type]} roughness={0.15} metalness={0.1} />
+            </mesh>
+          ))}
+        </group>
+      )}
+
+      {type === Topping.WHIPPED_CREAM && (
+        <group>
+          <mesh position={[0, 0.05, 0]}>
+            <torusGeometry args={[0.35, 0.18, 12, 24]} />
+            <meshStandardMaterial color="#FFFDF5" roughness={0.9} />
+          </mesh>
+          <mesh position={[0, 0.3, 0]}>
+            <coneGeometry args={[0.35, 0.6, 12]} />
+            <meshStandardMaterial color="#FFFDF5" roughness={0.9} />
+          </mesh>
+        </group>
+      )}
+
+      {type === Topping.WAFER_STICK && (
+        <mesh position={[0.25, 0.4, 0]} rotation={[0, 0, -0.35]}>
+          <boxGeometry args={[0.15, 1.2, 0.3]} />
+          <meshStandardMaterial color="#E8C07A" roughness={0.7} />
+        </mesh>
+      )}
+
+      {type === Topping.NUTS && (
+        <group>
+          {Array.from({ length: 14 }).map((_, i) => {
+            const angle = i * 2.4;
+            const radius = 0.15 + (i % 4) * 0.15;
+            return (
+              <mesh key={i} position={[Math.cos(angle) * radius, -0.05 - radius * 0.3, Math.sin(angle) * radius]} rotation={[i, i * 0.5, 0]}>
+                <dodecahedronGeometry args={[0.07]} />
+                <meshStandardMaterial color="#B07A45" roughness={0.8} />
+              </mesh>
+            );
+          })}
+        </group>
+      )}
+
       {type === Topping.SPRINKLES && (
         <group>
             {Array.from({ length: 30 }).map((_, i) => {
@@ -167,10 +478,30 @@ const ToppingMesh = ({ type, position }: { type: Topping; position: [number, num
   );
 };
 
-export const IceCream3D: React.FC<IceCream3DProps> = ({ container, layers, topping, isAnimating, isSuccess }) => {
+export const IceCream3D: React.FC<IceCream3DProps> = ({ container, layers, toppings, melt = [], isAnimating, isSuccess, coneColor = '#F4A460', historyCue, onRemoveScoop }) => {
   const groupRef = useRef<Group>(null);
+  const cueTime = useRef(Infinity); // Seconds since the last undo/redo
 
-  useFrame((state) => {
+  useEffect(() => {
+    if (historyCue) cueTime.current = 0;
+  }, [historyCue?.key]);
+  const previous = useRef<{ layers: Flavor[]; keys: number[] }>({ layers: [], keys: [] });
+  const { keys, removed } = useMemo(
+    () => matchScoopKeys(previous.current.layers, previous.current.keys, layers),
+    [layers]
+  );
+  const [departing, setDeparting] = useState<DepartingScoop[]>([]);
+
+  useEffect(() => {
+    const prev = previous.current;
+    if (removed !== null) {
+      const gone = { key: prev.keys[removed], flavor: prev.layers[removed], position: getSlotPosition(container, removed) };
+      setDeparting(d => [...d, gone]);
+    }
+    previous.current = { layers, keys };
+  }, [layers, keys, removed]);
+
+  useFrame((state, delta) => {
     if (groupRef.current) {
         // Idle animation
         groupRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.1;
@@ -178,34 +509,56 @@ export const IceCream3D: React.FC<IceCream3DProps> = ({ container, layers, toppi
         if (isAnimating) {
             groupRef.current.rotation.y += 0.15;
         }
+
+        // Undo/redo: a quick squash with a twist back (undo) or forward (redo)
+        cueTime.current += delta;
+        const pulse = Math.sin(Math.min(1, cueTime.current / HISTORY_CUE_SECONDS) * Math.PI);
+        groupRef.current.scale.setScalar(1 - 0.12 * pulse);
+        groupRef.current.rotation.y += (historyCue?.isUndo ? -0.6 : 0.6) * pulse;
     }
   });
 
-  // Calculate scoop positions (stacking)
-  const scoopSpacing = 1.0;
-  // Adjusted startY because cone is now flipped. 
-  // Flipped cone top is at world Y=0 (since pos is -1.5 and height is 3)
-  const startY = container === Container.CONE ? 0.2 : 0.8;
-
   return (
     <group ref={groupRef}>
-      {container === Container.CONE ? <Cone /> : <Cup />}
+      <ContainerModel container={container} coneColor={coneColor} />
       
-      {layers.map((flavor, index) => (
-        <Scoop 
-            key={index} 
-            flavor={flavor} 
-            position={[0, startY + (index * scoopSpacing), 0]} 
-            scale={1 - (index * 0.05)} // Slight taper for stacked scoops
+      {layers.map((flavor, index) => {
+        const [x, y, z] = getSlotPosition(container, index);
+        return (
+          <Scoop 
+              key={keys[index]} 
+              flavor={flavor} 
+              position={[x, y - getSagBelow(container, melt, index), z]} 
+              scale={getSlotScale(container, index)}
+              melt={melt[index] ?? 0}
+              onSelect={onRemoveScoop && (() => onRemoveScoop(index))}
+          />
+        );
+      })}
+
+      {departing.map(d => (
+        <RemovedScoop
+            key={d.key}
+            flavor={d.flavor}
+            position={d.position}
+            onDone={() => setDeparting(list => list.filter(x => x.key !== d.key))}
         />
       ))}
 
-      {layers.length > 0 && (
-          <ToppingMesh 
-            type={topping} 
-            position={[0, startY + ((layers.length - 1) * scoopSpacing) + 0.8, 0]} 
-          />
-      )}
+      {toppings.filter(p => p.layer < layers.length).map(({ topping, layer }) => {
+          const hasCream = toppings.some(p => p.layer === layer && p.topping === Topping.WHIPPED_CREAM);
+          const lift = hasCream && RAISED_BY_CREAM.includes(topping) ? 0.5 : 0;
+          const [x, y, z] = getSlotPosition(container, layer);
+          const scale = getSlotScale(container, layer);
+          const sag = getSagBelow(container, melt, layer) + SAG * (melt[layer] ?? 0) * scale;
+          return (
+            <ToppingMesh
+              key={`${topping}@${layer}`}
+              type={topping}
+              position={[x, y + 0.8 * scale - sag + lift, z]}
+            />
+          );
+      })}
 
       {isSuccess && (
         <>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Ticket, ContainerLayout } from '../types';
+import { CONTAINERS, PATIENCE_WARNING_SHARE, PATIENCE_CRITICAL_SHARE } from '../constants';
+import { getTopToppings, getToppingsOnLayer } from '../utils/orderUtils';
+import { getFlavorColor, getFlavorName } from '../utils/flavorRegistry';
+
+interface OrderTicketProps {
+  ticket: Ticket;
+  isActive: boolean;
+  onSelect: (ticketId: number) => void;
+  disabled?: boolean;
+}
+
+const PatienceBar = ({ patience, maxPatience }: { patience: number, maxPatience: number }) => {
+  const progress = Math.max(0, patience / maxPatience);
+  const color = progress <= PATIENCE_CRITICAL_SHARE ? 'bg-red-500' : progress <= PATIENCE_WARNING_SHARE ? 'bg-amber-400' : 'bg-green-400';
+  return (
+    <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+      <div className={`h-full ${color} transition-all duration-1000 ease-linear`} style={{ width: `${progress * 100}%` }} />
+    </div>
+  );
+};
+
+export const OrderTicket: React.FC<OrderTicketProps> = ({ ticket, isActive, onSelect, disabled }) => {
+  const { customer } = ticket;
+  const isAngry = ticket.patience / ticket.maxPatience <= PATIENCE_CRITICAL_SHARE;
+  const topToppings = getTopToppings(customer.order);
+  // Side-by-side scoops have no "top", so every topping is listed next to its scoop
+  const isRow = CONTAINERS[customer.order.container].layout === ContainerLayout.ROW;
+
+  return (
+    <button
+      onClick={() => onSelect(ticket.id)}
+      disabled={disabled}
+      className={`w-full text-left bg-white/95 backdrop-blur rounded-tr-3xl rounded-tl-3xl rounded-bl-3xl shadow-xl p-3 border-4 transition-all duration-300 animate-slide-in ${isActive ? 'border-indigo-400' : 'border-indigo-100 opacity-80 hover:opacity-100'}`}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <div className="h-8 w-8 bg-indigo-100 rounded-full flex items-center justify-center text-lg shadow-inner">{isAngry ? '😠' : '😃'}</div>
+        <span className="font-bold text-indigo-900 truncate">{customer.name}</span>
+      </div>
+      <PatienceBar patience={ticket.patience} maxPatience={ticket.maxPatience} />
+
+      {isActive ? (
+        <>
+          <p className="text-sm text-gray-600 italic my-3 leading-tight">"{customer.dialogue}"</p>
+
+          <div className="space-y-1 text-sm bg-gray-50 p-2 rounded-lg border border-gray-100">
+            <div className="flex justify-between">
+              <span className="text-gray-400 text-xs uppercase font-bold">Base</span>
+              <span className="font-bold text-gray-700">{customer.order.container}</span>
+            </div>
+            {!isRow && (
+              <div className="flex justify-between">
+                <span className="text-gray-400 text-xs uppercase font-bold">Top</span>
+                <span className="font-bold text-pink-500 text-right">{topToppings.length > 0 ? topToppings.join(' + ') : 'Plain'}</span>
+              </div>
+            )}
+            <div className="border-t border-gray-200 my-1 pt-1">
+              <div className="text-gray-400 text-xs mb-1 uppercase font-bold">{isRow ? 'Left to Right' : 'Stack'}</div>
+              <div className={`flex gap-1 ${isRow ? 'flex-col' : 'flex-col-reverse'}`}>
+                {customer.order.layers.map((l, i) => {
+                  // Top toppings are already listed above; only show garnishes in the stack
+                  const isTop = !isRow && i === customer.order.layers.length - 1;
+                  const garnishes = isTop ? [] : getToppingsOnLayer(customer.order, i);
+                  return (
+                    <div key={i} className="flex items-center gap-2">
+                      <div className="w-4 h-4 rounded-full border border-black/10 shadow-sm" style={{ backgroundColor: getFlavorColor(l) }}></div>
+                      <span className="font-bold text-gray-700 text-xs">{getFlavorName(l)}</span>
+                      {garnishes.length > 0 && (
+                        <span className="text-pink-500 text-xs font-bold">+ {garnishes.join(', ')}</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </>
+      ) : (
+        // Collapsed: just the scoop colors, bottom to top
+        <div className="flex gap-1 mt-2">
+          {customer.order.layers.map((l, i) => (
+            <div key={i} className="w-3 h-3 rounded-full border border-black/10" style={{ backgroundColor: getFlavorColor(l) }} title={getFlavorName(l)}></div>
+          ))}
+        </div>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import { Group, Plane, Vector3 } from 'three';
+import { Container, Flavor } from '../types';
+import { CONTAINERS } from '../constants';
+import { getFlavor } from '../utils/flavorRegistry';
+import { getSlotPosition } from './IceCream3D';
+import { SCOOP_GEOMETRY, useScoopMaterial } from '../utils/scoopMaterial';
+import { playPopSound, playSplatSound } from '../utils/soundUtils';
+
+// Hands-on mode: flavor tubs in the scene that scoops are dragged out of and dropped
+// onto the stack. Drops near the next free slot become an ADD_FLAVOR; anything else
+// falls off screen.
+
+interface ScoopingStationProps {
+  flavors: Flavor[];
+  container: Container;
+  layerCount: number;
+  onDrop: (flavor: Flavor) => boolean; // Whether the game took the scoop
+}
+
+const DRAG_PLANE = new Plane(new Vector3(0, 0, 1), 0); // The plane the stack sits in
+const SNAP_RADIUS = 1.1;
+const HELD_SCALE = 0.7;
+const TUBS_PER_ROW = 3;
+
+// Tubs are split between both sides of the stack, squeezed in on narrow screens
+const getTubLayout = (count: number, halfWidth: number) => {
+  const fit = Math.min(1, Math.max(0.5, (halfWidth - 0.4) / 3.3));
+  const leftCount = Math.ceil(count / 2);
+  const positions = Array.from({ length: count }, (_, i): [number, number, number] => {
+    const side = i < leftCount ? -1 : 1;
+    const slot = i < leftCount ? i : i - leftCount;
+    const col = slot % TUBS_PER_ROW;
+    const row = Math.floor(slot / TUBS_PER_ROW);
+    return [side * (1.7 + col * 0.8) * fit, 0.7 - row * 0.8, 0];
+  });
+  return { positions, scale: fit };
+};
+
+const useCursor = (cursor: string | null) => {
+  useEffect(() => {
+    if (!cursor) return;
+    document.body.style.cursor = cursor;
+    return () => { document.body.style.cursor = 'auto'; };
+  }, [cursor]);
+};
+
+interface TubProps {
+  flavor: Flavor;
+  position: [number, number, number];
+  scale: number;
+  isHolding: boolean;
+  onPointerDown: (e: ThreeEvent<PointerEvent>) => void;
+  onPointerMove: (e: ThreeEvent<PointerEvent>) => void;
+  onPointerUp: (e: ThreeEvent<PointerEvent>) => void;
+}
+
+const Tub: React.FC<TubProps> = ({ flavor, position, scale, isHolding, onPointerDown, onPointerMove, onPointerUp }) => {
+  const { name, color } = getFlavor(flavor);
+  const [isHovered, setIsHovered] = useState(false);
+  useCursor(isHovered && !isHolding ? 'grab' : null);
+
+  return (
+    <group
+      position={position}
+      scale={scale}
+      rotation={[0.35, 0, 0]} // Tipped towards the camera so the ice cream shows
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerOver={(e) => { e.stopPropagation(); setIsHovered(true); }}
+      onPointerOut={() => setIsHovered(false)}
+    >
+      <mesh position={[0, isHovered ? 0.05 : 0, 0]}>
+        <cylinderGeometry args={[0.32, 0.26, 0.35, 24]} />
+        <meshStandardMaterial color="#FAFAFA" roughness={0.5} />
+      </mesh>
+      {/* Colored band and the ice cream surface */}
+      <mesh position={[0, isHovered ? 0.05 : 0, 0]}>
+        <cylinderGeometry args={[0.322, 0.3, 0.08, 24]} />
+        <meshStandardMaterial color={color} roughness={0.5} />
+      </mesh>
+      <mesh position={[0, isHovered ? 0.2 : 0.15, 0]} scale={[1, 0.35, 1]}>
+        <sphereGeometry args={[0.3, 24, 12, 0, Math.PI * 2, 0, Math.PI / 2]} />
+        <meshStandardMaterial color={color} roughness={0.8} />
+      </mesh>
+      {isHovered && !isHolding && (
+        <Html center position={[0, 0.6, 0]} style={{ pointerEvents: 'none' }}>
+          <span className="whitespace-nowrap bg-white/90 text-gray-700 text-xs font-bold px-2 py-0.5 rounded-full shadow">{name}</span>
+        </Html>
+      )}
+    </group>
+  );
+};
+
+const ScoopBall = ({ flavor }: { flavor: Flavor }) => (
+  <mesh scale={HELD_SCALE} geometry={SCOOP_GEOMETRY} material={useScoopMaterial(flavor)} />
+);
+
+// A missed (or refused) scoop dropping out of the scene
+const FallingScoop = ({ flavor, position, onDone }: { flavor: Flavor; position: Vector3; onDone: () => void }) => {
+  const groupRef = useRef<Group>(null);
+  const velocity = useRef(0);
+  const isDone = useRef(false);
+
+  useFrame((state, delta) => {
+    if (isDone.current || !groupRef.current) return;
+    velocity.current -= 15 * delta;
+    groupRef.current.position.y += velocity.current * delta;
+    groupRef.current.rotation.z += delta * 3;
+    if (groupRef.current.position.y < -6) {
+      isDone.current = true;
+      onDone();
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={position}>
+      <ScoopBall flavor={flavor} />
+    </group>
+  );
+};
+
+interface Fallen {
+  key: number;
+  flavor: Flavor;
+  position: Vector3;
+}
+
+let nextFallenKey = 0;
+
+export const ScoopingStation: React.FC<ScoopingStationProps> = ({ flavors, container, layerCount, onDrop }) => {
+  const viewport = useThree(state => state.viewport);
+  const { positions, scale } = getTubLayout(flavors.length, viewport.width / 2);
+  const [held, setHeld] = useState<Flavor | null>(null);
+  const [isOverStack, setIsOverStack] = useState(false);
+  const [fallen, setFallen] = useState<Fallen[]>([]);
+  const heldRef = useRef<Group>(null);
+  const heldPosition = useRef(new Vector3());
+  const holding = useRef<Flavor | null>(null); // Pointer-up can reach more than one tub; only the first drops
+  useCursor(held ? 'grabbing' : null);
+
+  const slot = layerCount < CONTAINERS[container].capacity ? new Vector3(...getSlotPosition(container, layerCount)) : null;
+
+  const moveHeld = (e: ThreeEvent<PointerEvent>) => {
+    if (!e.ray.intersectPlane(DRAG_PLANE, heldPosition.current)) return;
+    heldRef.current?.position.copy(heldPosition.current);
+    const isOver = !!slot && heldPosition.current.distanceTo(slot) < SNAP_RADIUS;
+    if (isOver !== isOverStack) setIsOverStack(isOver);
+  };
+
+  const grab = (flavor: Flavor) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    e.ray.intersectPlane(DRAG_PLANE, heldPosition.current);
+    holding.current = flavor;
+    setHeld(flavor);
+    playPopSound();
+  };
+
+  const drag = (e: ThreeEvent<PointerEvent>) => {
+    if (holding.current) moveHeld(e);
+  };
+
+  const release = (e: ThreeEvent<PointerEvent>) => {
+    const flavor = holding.current;
+    if (!flavor) return;
+    holding.current = null;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    moveHeld(e);
+    const isOver = !!slot && heldPosition.current.distanceTo(slot) < SNAP_RADIUS;
+    if (!isOver || !onDrop(flavor)) {
+      if (!isOver) playSplatSound();
+      setFallen(list => [...list, { key: nextFallenKey++, flavor, position: heldPosition.current.clone() }]);
+    }
+    setHeld(null);
+    setIsOverStack(false);
+  };
+
+  return (
+    <group>
+      {flavors.map((flavor, i) => (
+        <Tub
+          key={flavor}
+          flavor={flavor}
+          position={positions[i]}
+          scale={scale}
+          isHolding={held !== null}
+          onPointerDown={grab(flavor)}
+          onPointerMove={drag}
+          onPointerUp={release}
+        />
+      ))}
+
+      {held && (
+        <group ref={heldRef} position={heldPosition.current.clone()}>
+          <ScoopBall flavor={held} />
+        </group>
+      )}
+
+      {/* Where the scoop will land */}
+      {held && slot && (
+        <mesh position={slot}>
+          <sphereGeometry args={[0.9 * HELD_SCALE, 24, 24]} />
+          <meshBasicMaterial color={isOverStack ? '#4ADE80' : '#FFFFFF'} transparent opacity={isOverStack ? 0.45 : 0.15} depthWrite={false} />
+        </mesh>
+      )}
+
+      {fallen.map(f => (
+        <FallingScoop
+          key={f.key}
+          flavor={f.flavor}
+          position={f.position}
+          onDone={() => setFallen(list => list.filter(x => x.key !== f.key))}
+        />
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import { ShopProgress, UpgradeId, ConeSkin } from '../types';
+import { UPGRADES, CONE_SKINS } from '../constants';
+import { getUpgradeLevel, getNextUpgradeCost } from '../utils/shopUtils';
+import { CurrencyDollarIcon, XMarkIcon, ShoppingBagIcon, CheckIcon } from '@heroicons/react/24/solid';
+
+interface ShopProps {
+  progress: ShopProgress;
+  onBuyUpgrade: (id: UpgradeId) => void;
+  onBuySkin: (skin: ConeSkin) => void;
+  onClose: () => void;
+}
+
+export const Shop: React.FC<ShopProps> = ({ progress, onBuyUpgrade, onBuySkin, onClose }) => {
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto animate-pop-in border-4 border-yellow-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-yellow-600 flex items-center gap-2">
+            <ShoppingBagIcon className="h-8 w-8 text-yellow-500" /> Shop
+          </h2>
+          <div className="flex items-center gap-3">
+            <span className="flex items-center gap-1 font-black text-gray-700 bg-yellow-100 px-3 py-1 rounded-full">
+              <CurrencyDollarIcon className="h-5 w-5 text-green-500" /> {progress.wallet}
+            </span>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XMarkIcon className="h-8 w-8" />
+            </button>
+          </div>
+        </div>
+
+        {/* Upgrades */}
+        <h3 className="text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Upgrades</h3>
+        <div className="space-y-2 mb-6">
+          {UPGRADES.map(upgrade => {
+            const level = getUpgradeLevel(progress, upgrade.id);
+            const cost = getNextUpgradeCost(progress, upgrade);
+            const canAfford = cost !== null && progress.wallet >= cost;
+            return (
+              <div key={upgrade.id} className="flex items-center justify-between gap-3 bg-gray-50 border border-gray-100 rounded-xl p-3">
+                <div>
+                  <div className="font-bold text-gray-700">
+                    {upgrade.name}
+                    {upgrade.costs.length > 1 && (
+                      <span className="ml-2 text-xs text-indigo-500 font-mono">Lv {level}/{upgrade.costs.length}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">{upgrade.description}</div>
+                </div>
+                {cost === null ? (
+                  <span className="flex items-center gap-1 text-green-600 font-bold text-sm">
+                    <CheckIcon className="h-4 w-4" /> Owned
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onBuyUpgrade(upgrade.id)}
+                    disabled={!canAfford}
+                    className={`shrink-0 px-3 py-2 rounded-xl font-bold text-sm transition-colors ${canAfford ? 'bg-yellow-400 text-yellow-900 hover:bg-yellow-300' : 'bg-gray-200 text-gray-400 cursor-not-allowed'}`}
+                  >
+                    {cost} Coins
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Cone Skins */}
+        <h3 className="text-sm font-bold text-gray-500 mb-2 uppercase tracking-wide">Cone Skins</h3>
+        <div className="grid grid-cols-2 gap-2">
+          {Object.values(ConeSkin).map(skin => {
+            const { color, cost } = CONE_SKINS[skin];
+            const isOwned = progress.ownedSkins.includes(skin);
+            const isSelected = progress.selectedSkin === skin;
+            const canAfford = isOwned || progress.wallet >= cost;
+            return (
+              <button
+                key={skin}
+                onClick={() => onBuySkin(skin)}
+                disabled={!canAfford}
+                className={`flex items-center gap-2 p-2 rounded-xl border-2 text-left text-sm font-bold transition-all ${isSelected ? 'border-yellow-400 bg-yellow-50' : 'border-gray-100 bg-gray-50 hover:border-yellow-200'} ${canAfford ? '' : 'opacity-50 cursor-not-allowed'}`}
+              >
+                <span className="w-6 h-6 rounded-full border border-black/10 shadow-inner" style={{ backgroundColor: color }}></span>
+                <span className="flex-1 text-gray-700">{skin}</span>
+                <span className="text-xs text-gray-500">{isSelected ? 'Equipped' : isOwned ? 'Equip' : `${cost}`}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React from 'react';
+import { ShiftEnd, StatsProgress } from '../types';
+import { summarizeShifts, getDifficultySummaries, getFlavorErrors } from '../utils/statsUtils';
+import { getFlavorColor, getFlavorName } from '../utils/flavorRegistry';
+import { XMarkIcon, ChartBarIcon } from '@heroicons/react/24/solid';
+
+interface StatsProps {
+  progress: StatsProgress;
+  onClose: () => void;
+}
+
+const TREND_SHIFTS = 20;
+const RECENT_SHIFTS = 10;
+const FLAVOR_ROWS = 8;
+
+const END_LABELS: Record<ShiftEnd, string> = {
+  [ShiftEnd.CLOSING_TIME]: 'Closing time',
+  [ShiftEnd.WRONG_ORDER]: 'Wrong order',
+  [ShiftEnd.WALKED_OUT]: 'Walk-out'
+};
+
+const Tile = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="bg-indigo-50 rounded-xl p-2 text-center">
+    <div className="text-xl font-black text-indigo-700 font-mono">{value}</div>
+    <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{label}</div>
+  </div>
+);
+
+// Coins per shift as bars, with accuracy drawn over them
+const TrendChart = ({ progress }: { progress: StatsProgress }) => {
+  const shifts = progress.shifts.slice(-TREND_SHIFTS);
+  const maxCoins = Math.max(1, ...shifts.map(s => s.coins));
+  const width = 100 / shifts.length;
+  const accuracyLine = shifts.map((s, i) => `${(i + 0.5) * width},${100 - s.accuracy}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-28 bg-gray-50 rounded-xl">
+        {shifts.map((s, i) => (
+          <rect
+            key={s.date}
+            x={i * width + width * 0.15}
+            y={100 - (s.coins / maxCoins) * 95}
+            width={width * 0.7}
+            height={(s.coins / maxCoins) * 95}
+            className="fill-yellow-300"
+          >
+            <title>{`${new Date(s.date).toLocaleDateString()} · ${s.difficulty} · ${s.coins} coins · ${s.accuracy}%`}</title>
+          </rect>
+        ))}
+        {shifts.length > 1 && (
+          <polyline points={accuracyLine} fill="none" strokeWidth={2} vectorEffect="non-scaling-stroke" className="stroke-indigo-500" />
+        )}
+      </svg>
+      <div className="flex justify-center gap-4 mt-1 text-[10px] font-bold text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-yellow-300" /> Coins (best {maxCoins})</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-0.5 bg-indigo-500" /> Accuracy</span>
+      </div>
+    </div>
+  );
+};
+
+export const Stats: React.FC<StatsProps> = ({ progress, onClose }) => {
+  const overall = summarizeShifts(progress.shifts);
+  const byDifficulty = getDifficultySummaries(progress);
+  const flavorErrors = getFlavorErrors(progress).slice(0, FLAVOR_ROWS);
+  const recent = progress.shifts.slice(-RECENT_SHIFTS).reverse();
+
+  return (
+    <div className="absolute inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-2xl w-full max-w-2xl max-h-full overflow-y-auto animate-pop-in border-4 border-indigo-100">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-display text-indigo-600 flex items-center gap-2">
+            <ChartBarIcon className="h-8 w-8 text-indigo-500" /> Stats
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-8 w-8" />
+          </button>
+        </div>
+
+        {progress.shifts.length === 0 ? (
+          <p className="text-center text-gray-500 font-bold py-8">No shifts yet. Finish one and it'll show up here!</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <Tile label="Shifts" value={overall.shifts} />
+              <Tile label="Served" value={overall.served} />
+              <Tile label="Accuracy" value={`${overall.accuracy}%`} />
+              <Tile label="Avg Serve" value={`${overall.serveSeconds}s`} />
+            </div>
+
+            <section>
+              <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-2">Last {Math.min(TREND_SHIFTS, progress.shifts.length)} Shifts</h3>
+              <TrendChart progress={progress} />
+            </section>
+
+            <section>
+              <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-2">By Difficulty</h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-bold py-1">Difficulty</th>
+                    <th className="font-bold text-right">Shifts</th>
+                    <th className="font-bold text-right">Avg Coins</th>
+                    <th className="font-bold text-right">Best</th>
+                    <th className="font-bold text-right">Accuracy</th>
+                    <th className="font-bold text-right">Avg Serve</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-gray-700">
+                  {byDifficulty.map(([difficulty, summary]) => (
+                    <tr key={difficulty} className="border-t border-gray-100">
+                      <td className="py-1 font-sans font-bold">{difficulty}</td>
+                      <td className="text-right">{summary.shifts}</td>
+                      <td className="text-right">{summary.coins}</td>
+                      <td className="text-right">{summary.bestCoins}</td>
+                      <td className="text-right">{summary.accuracy}%</td>
+                      <td className="text-right">{summary.serveSeconds}s</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {flavorErrors.length > 0 && (
+              <section>
+                <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-2">Flavor Mix-ups</h3>
+                <div className="space-y-1">
+                  {flavorErrors.map(row => (
+                    <div key={row.flavor} className="flex items-center gap-2 text-xs">
+                      <span className="w-3 h-3 rounded-full border border-black/10 shrink-0" style={{ backgroundColor: getFlavorColor(row.flavor) }} />
+                      <span className="w-24 font-bold text-gray-700 truncate">{getFlavorName(row.flavor)}</span>
+                      <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-400 rounded-full" style={{ width: `${row.rate * 100}%` }} />
+                      </div>
+                      <span className="w-16 text-right font-mono text-gray-500">{row.wrong}/{row.asked}</span>
+                      <span className="w-32 text-gray-400 truncate">
+                        {row.mixedUpWith ? `vs ${getFlavorName(row.mixedUpWith)}` : ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-sm font-bold text-gray-600 uppercase tracking-wider mb-2">Recent Shifts</h3>
+              <div className="space-y-1">
+                {recent.map(s => (
+                  <div key={s.date} className="flex flex-wrap items-center gap-x-3 text-xs bg-gray-50 rounded-lg px-2 py-1">
+                    <span className="font-bold text-gray-700 w-20">{new Date(s.date).toLocaleDateString()}</span>
+                    <span className="text-gray-500 w-28 capitalize">{s.mode} · {s.difficulty}</span>
+                    <span className="font-mono text-gray-600">{s.served} served</span>
+                    <span className="font-mono text-gray-600">{s.accuracy}%</span>
+                    <span className="font-mono text-gray-600">{s.serveSeconds}s</span>
+                    <span className="font-mono font-black text-yellow-600">{s.coins}</span>
+                    <span className="ml-auto text-gray-400">{END_LABELS[s.endedBy]}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,148 @@
-import { Flavor, Difficulty } from './types';
-
-export const FLAVOR_COLORS: Record<Flavor, string> = {
-  [Flavor.VANILLA]: '#F3E5AB',
-  [Flavor.CHOCOLATE]: '#5D4037',
-  [Flavor.STRAWBERRY]: '#FF80AB',
-  [Flavor.MINT]: '#80CBC4',
-  [Flavor.BLUEBERRY]: '#7986CB',
-  [Flavor.LEMON]: '#FFF176',
-  [Flavor.COFFEE]: '#6F4E37',
-  [Flavor.PISTACHIO]: '#93C572',
-  [Flavor.MANGO]: '#FFCC80',
-  [Flavor.COOKIE_DOUGH]: '#E1C699',
+import { Flavor, Topping, Container, ContainerLayout, Difficulty, Assortment, DifficultyRules, UpgradeId, ConeSkin, CampaignDay } from './types';
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultyRules> = {
+  [Difficulty.EASY]: { maxScoops: 1, timeLimit: 30, coinMultiplier: 1, strikes: 3, maxCustomers: 1, meltRate: 0.02 },
+  [Difficulty.MEDIUM]: { maxScoops: 2, timeLimit: 20, coinMultiplier: 2, strikes: 3, maxCustomers: 2, meltRate: 0.03 },
+  [Difficulty.HARD]: { maxScoops: 3, timeLimit: 15, coinMultiplier: 3, strikes: 2, maxCustomers: 2, meltRate: 0.04 },
+  [Difficulty.EXPERT]: { maxScoops: 4, timeLimit: 12, coinMultiplier: 5, strikes: 2, maxCustomers: 3, meltRate: 0.05 },
+  [Difficulty.MASTER]: { maxScoops: 5, timeLimit: 10, coinMultiplier: 10, strikes: 1, maxCustomers: 3, meltRate: 0.06 },
+};
+
+// Toppings that can have another scoop stacked on them (garnishes between layers).
+// The rest only work on the very top.
+export const LAYERABLE_TOPPINGS: Topping[] = [Topping.SPRINKLES, Topping.CHOCOLATE_SAUCE, Topping.CARAMEL, Topping.NUTS];
+
+export interface ContainerDefinition {
+  layout: ContainerLayout;
+  capacity: number; // Most scoops it can physically hold
+  baseY: number; // Height of the first scoop slot
+  spacing: number; // Distance between slots, up for stacks and across for rows
+}
+
+export const CONTAINERS: Record<Container, ContainerDefinition> = {
+  [Container.CONE]: { layout: ContainerLayout.STACK, capacity: 6, baseY: 0.2, spacing: 1.0 },
+  [Container.CUP]: { layout: ContainerLayout.STACK, capacity: 6, baseY: 0.8, spacing: 1.0 },
+  [Container.SUGAR_CONE]: { layout: ContainerLayout.STACK, capacity: 3, baseY: 0.3, spacing: 0.95 },
+  [Container.WAFFLE_BOWL]: { layout: ContainerLayout.STACK, capacity: 4, baseY: -0.2, spacing: 1.0 },
+  [Container.SUNDAE_GLASS]: { layout: ContainerLayout.STACK, capacity: 6, baseY: 0.3, spacing: 0.9 },
+  [Container.BANANA_SPLIT]: { layout: ContainerLayout.ROW, capacity: 3, baseY: -0.1, spacing: 1.3 },
+};
+
+// Points (out of 100) each part of an order is worth when scoring a serve
+export const SCORING_WEIGHTS = {
+  container: 20,
+  toppings: 20,
+  layers: 60,
+};
+
+// Share of a customer's starting patience left when the timer turns amber, then red, and
+// customers start to show it. Relative, so even the shortest waits start out calm.
+export const PATIENCE_WARNING_SHARE = 2 / 3;
+export const PATIENCE_CRITICAL_SHARE = 1 / 3;
+
+// Endless mode: a new scoop every few levels, with orders getting busier in between
+export const ENDLESS_MAX_LEVEL = 20;
+export const ENDLESS_LEVELS_PER_SCOOP = 4;
+// The level goes up after this many serves in a row that average at least the accuracy
+// while using at most the share of the customers' patience, and down after a miss or
+// when they average below the struggling accuracy
+export const ENDLESS_WINDOW = 3;
+export const ENDLESS_CRUISING_ACCURACY = 90;
+export const ENDLESS_CRUISING_PATIENCE = 0.6;
+export const ENDLESS_STRUGGLING_ACCURACY = 75;
+
+// Daily challenge: every day has this many customers, on one of these difficulties
+export const DAILY_CUSTOMERS = 10;
+export const DAILY_DIFFICULTIES: Difficulty[] = [Difficulty.MEDIUM, Difficulty.MEDIUM, Difficulty.HARD, Difficulty.HARD, Difficulty.EXPERT];
+
+// Shifts kept in the stats history; older ones are dropped
+export const STATS_HISTORY_LIMIT = 200;
+
+// A serve with less patience left than this is a close call
+export const CLOSE_CALL_SECONDS = 2;
+
+// Minimum gap between customers joining a line that isn't empty
+export const CUSTOMER_ARRIVAL_GAP_MS = 4000;
+
+// How many customers to keep requested ahead of the current one
+export const PREFETCH_SIZE = 3;
+
+// Minimum accuracy for a serve to count as accepted (and be paid)
+export const PASSING_ACCURACY = 60;
+
+// Share of the coins lost for a fully melted serve; the tip shrinks linearly with melt
+export const MELT_TIP_PENALTY = 0.5;
+
+// Average melt from which the customer mentions it
+export const NOTICEABLE_MELT = 0.25;
+
+// Built-in content only; see getFullAssortment in utils/shopUtils.ts for custom flavors too
+export const FULL_ASSORTMENT: Assortment = {
+  flavors: Object.values(Flavor),
+  toppings: Object.values(Topping),
+  containers: Object.values(Container)
 };
 
-export const DIFFICULTY_SETTINGS = {
-  [Difficulty.EASY]: { maxScoops: 1, timeLimit: 30, coinMultiplier: 1 },
-  [Difficulty.MEDIUM]: { maxScoops: 2, timeLimit: 20, coinMultiplier: 2 },
-  [Difficulty.HARD]: { maxScoops: 3, timeLimit: 15, coinMultiplier: 3 },
-  [Difficulty.EXPERT]: { maxScoops: 4, timeLimit: 12, coinMultiplier: 5 },
-  [Difficulty.MASTER]: { maxScoops: 5, timeLimit: 10, coinMultiplier: 10 },
+// Content that has to be bought in the shop before customers can order it
+export const LOCKED_FLAVORS: Flavor[] = [Flavor.PISTACHIO, Flavor.MANGO, Flavor.COOKIE_DOUGH];
+export const LOCKED_TOPPINGS: Topping[] = [Topping.CHERRY];
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  name: string;
+  description: string;
+  costs: number[]; // One entry per level
+  flavor?: Flavor; // Unlocked by buying it
+  topping?: Topping;
+}
+
+export const UPGRADES: UpgradeDefinition[] = [
+  {
+    id: UpgradeId.EXTRA_TIME,
+    name: 'Comfy Benches',
+    description: '+3s customer patience per level',
+    costs: [30, 80, 160]
+  },
+  {
+    id: UpgradeId.AUTO_SCOOP,
+    name: 'Auto-Scooper',
+    description: 'Adds the next correct scoop for you. Faster each level',
+    costs: [60, 140, 260]
+  },
+  { id: UpgradeId.UNLOCK_PISTACHIO, name: 'Pistachio Tub', description: 'Unlock Pistachio', costs: [40], flavor: Flavor.PISTACHIO },
+  { id: UpgradeId.UNLOCK_MANGO, name: 'Mango Tub', description: 'Unlock Mango', costs: [40], flavor: Flavor.MANGO },
+  { id: UpgradeId.UNLOCK_COOKIE_DOUGH, name: 'Cookie Dough Tub', description: 'Unlock Cookie Dough', costs: [50], flavor: Flavor.COOKIE_DOUGH },
+  { id: UpgradeId.UNLOCK_CHERRY, name: 'Cherry Jar', description: 'Unlock Cherry topping', costs: [25], topping: Topping.CHERRY },
+];
+
+export const EXTRA_TIME_PER_LEVEL = 3;
+
+// Seconds between auto-scoops, indexed by upgrade level (0 = not owned)
+export const AUTO_SCOOP_SECONDS = [0, 8, 6, 4];
+
+export const CONE_SKINS: Record<ConeSkin, { color: string; cost: number }> = {
+  [ConeSkin.CLASSIC]: { color: '#F4A460', cost: 0 },
+  [ConeSkin.CHOCOLATE]: { color: '#6D4C41', cost: 50 },
+  [ConeSkin.STRAWBERRY]: { color: '#F48FB1', cost: 50 },
+  [ConeSkin.MIDNIGHT]: { color: '#3949AB', cost: 120 },
 };
 
-export const FALLBACK_CUSTOMER = {
-  name: "Timmy",
-  personality: "Likes simple things.",
-  dialogue: "I just want a vanilla cone!",
-  order: {
-    container: "Cone",
-    layers: ["Vanilla"],
-    topping: "None"
-  }
-};
\ No newline at end of file
+// The shop career, one shift per day. Targets leave room for a few imperfect serves.
+export const CAMPAIGN_DAYS: CampaignDay[] = [
+  {
+    name: 'Opening Day',
+    difficulty: Difficulty.EASY,
+    customers: 4,
+    revenueTarget: 25,
+    unlocks: { flavors: [Flavor.VANILLA, Flavor.CHOCOLATE, Flavor.STRAWBERRY], containers: [Container.CONE, Container.CUP], toppings: [Topping.SPRINKLES] }
+  },
+  { name: 'Word Gets Around', difficulty: Difficulty.EASY, customers: 6, revenueTarget: 40, unlocks: { flavors: [Flavor.MINT], toppings: [Topping.CHOCOLATE_SAUCE] } },
+  { name: 'Double Trouble', difficulty: Difficulty.MEDIUM, customers: 6, revenueTarget: 80, unlocks: { flavors: [Flavor.BLUEBERRY], containers: [Container.SUGAR_CONE] } },
+  { name: 'Sauce Boss', difficulty: Difficulty.MEDIUM, customers: 8, revenueTarget: 110, unlocks: { flavors: [Flavor.LEMON], toppings: [Topping.CARAMEL, Topping.WHIPPED_CREAM] } },
+  { name: 'Heatwave', difficulty: Difficulty.HARD, customers: 8, revenueTarget: 160, unlocks: { flavors: [Flavor.COFFEE], containers: [Container.WAFFLE_BOWL] } },
+  { name: 'Nuts About You', difficulty: Difficulty.HARD, customers: 10, revenueTarget: 210, unlocks: { flavors: [Flavor.PISTACHIO], toppings: [Topping.NUTS, Topping.WAFER_STICK] } },
+  { name: 'Sundae Best', difficulty: Difficulty.EXPERT, customers: 10, revenueTarget: 330, unlocks: { flavors: [Flavor.MANGO], containers: [Container.SUNDAE_GLASS], toppings: [Topping.CHERRY] } },
+  { name: 'Cookie Monster', difficulty: Difficulty.EXPERT, customers: 12, revenueTarget: 420, unlocks: { flavors: [Flavor.COOKIE_DOUGH], containers: [Container.BANANA_SPLIT] } },
+  { name: 'Rush Hour', difficulty: Difficulty.MASTER, customers: 12, revenueTarget: 700, unlocks: {} },
+  { name: 'Grand Finale', difficulty: Difficulty.MASTER, customers: 15, revenueTarget: 950, unlocks: {} },
+];
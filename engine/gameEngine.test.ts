@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import { Container, Customer, Difficulty, Flavor, GameMode, GameState, ShiftRules, Topping } from '../types';
+import { DIFFICULTY_SETTINGS, FULL_ASSORTMENT } from '../constants';
+import { GameAction, GameEngineState, gameReducer, createInitialState, getEventsSince } from './gameEngine';
+
+const rulesFor = (difficulty: Difficulty, changes: Partial<ShiftRules> = {}): ShiftRules => ({
+  ...DIFFICULTY_SETTINGS[difficulty],
+  assortment: FULL_ASSORTMENT,
+  meltRates: {},
+  ...changes
+});
+
+const customer = (layers: Flavor[] = [Flavor.VANILLA], name = 'Sam'): Customer => ({
+  name,
+  personality: 'Cheerful',
+  dialogue: 'One scoop please!',
+  order: { container: Container.CONE, layers, toppings: [] }
+});
+
+const run = (state: GameEngineState, ...actions: GameAction[]) => actions.reduce(gameReducer, state);
+
+// A classic shift with the first customer at the counter
+const startShift = (difficulty = Difficulty.EASY, order = customer(), changes: Partial<ShiftRules> = {}) => run(
+  createInitialState(),
+  { type: 'START', mode: GameMode.CLASSIC, difficulty, rules: rulesFor(difficulty, changes) },
+  { type: 'CUSTOMER_ARRIVED', customer: order }
+);
+
+const lastEvent = (state: GameEngineState) => state.events[state.events.length - 1];
+
+const ticks = (count: number): GameAction[] => Array.from({ length: count }, () => ({ type: 'TICK' }));
+
+describe('START', () => {
+  it('opens a fresh shift with the rules it was given', () => {
+    const played = startShift();
+    const rules = rulesFor(Difficulty.HARD, { strikes: 4 });
+    const state = run(played, { type: 'SERVE' }, { type: 'ADVANCE' }, {
+      type: 'START', mode: GameMode.CLASSIC, difficulty: Difficulty.HARD, rules
+    });
+    expect(state.phase).toBe(GameState.LOADING_ORDER);
+    expect(state.difficulty).toBe(Difficulty.HARD);
+    expect(state.rules).toBe(rules);
+    expect(state.strikes).toBe(4);
+    expect(state.coins).toBe(0);
+    expect(state.build.layers).toEqual([]);
+    expect(lastEvent(state)).toEqual({ type: 'shiftStarted' });
+  });
+});
+
+describe('TICK', () => {
+  it('wears down patience while building', () => {
+    const state = run(startShift(), ...ticks(5));
+    expect(state.tickets[0].patience).toBe(state.tickets[0].maxPatience - 5);
+  });
+
+  it('walks the customer out when patience runs out', () => {
+    const state = run(startShift(), ...ticks(DIFFICULTY_SETTINGS[Difficulty.EASY].timeLimit));
+    expect(state.tickets).toEqual([]);
+    expect(state.phase).toBe(GameState.RESULT);
+    expect(state.strikes).toBe(DIFFICULTY_SETTINGS[Difficulty.EASY].strikes - 1);
+    expect(lastEvent(state).type).toBe('walkedOut');
+  });
+
+  it('does nothing on the menu', () => {
+    const state = createInitialState();
+    expect(gameReducer(state, { type: 'TICK' })).toBe(state);
+  });
+});
+
+describe('the line', () => {
+  it('gives later customers more patience and serves them next', () => {
+    const state = run(startShift(Difficulty.MEDIUM), { type: 'CUSTOMER_ARRIVED', customer: customer([Flavor.MINT], 'Alex') });
+    expect(state.tickets.map(t => t.maxPatience)).toEqual([1, 2].map(n => n * DIFFICULTY_SETTINGS[Difficulty.MEDIUM].timeLimit));
+    const served = run(state, { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA }, { type: 'SERVE' }, { type: 'ADVANCE' });
+    expect(served.phase).toBe(GameState.PLAYING);
+    expect(served.tickets.map(t => t.customer.name)).toEqual(['Alex']);
+    expect(served.activeTicketId).toBe(served.tickets[0].id);
+  });
+});
+
+describe('strikes', () => {
+  it('costs a strike for a wrong order and carries on', () => {
+    const state = run(startShift(), { type: 'ADD_FLAVOR', flavor: Flavor.CHOCOLATE }, { type: 'SERVE' });
+    expect(state.strikes).toBe(2);
+    expect(state.coins).toBe(0);
+    expect(run(state, { type: 'ADVANCE' }).phase).toBe(GameState.LOADING_ORDER);
+  });
+
+  it('ends the shift once the last strike is gone', () => {
+    const state = run(startShift(Difficulty.MASTER), ...ticks(DIFFICULTY_SETTINGS[Difficulty.MASTER].timeLimit), { type: 'ADVANCE' });
+    expect(state.strikes).toBe(0);
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    expect(lastEvent(state)).toEqual({ type: 'gameOver', coins: 0, isNewHighScore: false });
+  });
+});
+
+describe('SERVE', () => {
+  it('scores a perfect order and pays by the coin multiplier', () => {
+    const state = run(startShift(Difficulty.MEDIUM), { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA }, { type: 'SERVE' });
+    expect(state.lastScore?.isPerfect).toBe(true);
+    expect(state.served).toBe(1);
+    expect(state.coins).toBe(10 * DIFFICULTY_SETTINGS[Difficulty.MEDIUM].coinMultiplier);
+    expect(lastEvent(state)).toMatchObject({ type: 'served', reward: state.coins });
+  });
+
+  it('pays less for an order that is only close', () => {
+    const state = run(
+      startShift(Difficulty.EXPERT, customer([Flavor.VANILLA, Flavor.CHOCOLATE, Flavor.STRAWBERRY, Flavor.MINT])),
+      { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA },
+      { type: 'ADD_FLAVOR', flavor: Flavor.CHOCOLATE },
+      { type: 'ADD_FLAVOR', flavor: Flavor.STRAWBERRY },
+      { type: 'ADD_FLAVOR', flavor: Flavor.LEMON },
+      { type: 'SERVE' }
+    );
+    expect(state.lastScore?.isPassing).toBe(true);
+    expect(state.lastScore?.isPerfect).toBe(false);
+    expect(state.coins).toBeGreaterThan(0);
+    expect(state.coins).toBeLessThan(10 * DIFFICULTY_SETTINGS[Difficulty.EXPERT].coinMultiplier);
+  });
+});
+
+describe('melting', () => {
+  it('costs tip but not accuracy', () => {
+    const state = run(startShift(), { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA }, ...ticks(20), { type: 'SERVE' });
+    expect(state.lastScore?.accuracy).toBe(100);
+    expect(state.lastScore?.melt).toBeGreaterThan(0);
+    expect(state.coins).toBeLessThan(10 * DIFFICULTY_SETTINGS[Difficulty.EASY].coinMultiplier);
+  });
+});
+
+describe('ADVANCE', () => {
+  it('closes the shop once the last customer of the day is served', () => {
+    const state = run(
+      startShift(Difficulty.EASY, customer(), { customerLimit: 1 }),
+      { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA },
+      { type: 'SERVE' },
+      { type: 'ADVANCE' }
+    );
+    expect(state.phase).toBe(GameState.GAME_OVER);
+    expect(state.feedback).toBe('Closing time!');
+  });
+
+  it('waits for the next customer while strikes are left', () => {
+    const state = run(startShift(), { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA }, { type: 'SERVE' }, { type: 'ADVANCE' });
+    expect(state.phase).toBe(GameState.LOADING_ORDER);
+    expect(state.lastScore).toBeNull();
+  });
+
+  it('only leaves the result screen', () => {
+    const state = startShift();
+    expect(gameReducer(state, { type: 'ADVANCE' })).toBe(state);
+  });
+});
+
+describe('ADD_FLAVOR', () => {
+  it('allows one scoop past the largest order, then refuses', () => {
+    const scoop: GameAction = { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA };
+    const state = run(startShift(Difficulty.EASY), scoop, scoop, scoop);
+    expect(state.build.layers).toHaveLength(DIFFICULTY_SETTINGS[Difficulty.EASY].maxScoops + 1);
+    expect(state.feedback).toBe('Too high! Use Trash.');
+    expect(lastEvent(state)).toEqual({ type: 'flavorRejected', flavor: Flavor.VANILLA });
+  });
+
+  it('ignores flavors that are not on offer', () => {
+    const assortment = { ...FULL_ASSORTMENT, flavors: [Flavor.VANILLA] };
+    const state = startShift(Difficulty.EASY, customer(), { assortment });
+    expect(gameReducer(state, { type: 'ADD_FLAVOR', flavor: Flavor.MINT })).toBe(state);
+  });
+});
+
+describe('TOGGLE_TOPPING', () => {
+  it('puts a topping on the top scoop and takes it off again', () => {
+    const sprinkles: GameAction = { type: 'TOGGLE_TOPPING', topping: Topping.SPRINKLES };
+    const state = run(startShift(), { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA }, sprinkles);
+    expect(state.build.toppings).toEqual([{ topping: Topping.SPRINKLES, layer: 0 }]);
+    expect(run(state, sprinkles).build.toppings).toEqual([]);
+  });
+
+  it('needs a scoop to go on', () => {
+    const state = run(startShift(), { type: 'TOGGLE_TOPPING', topping: Topping.SPRINKLES });
+    expect(state.build.toppings).toEqual([]);
+    expect(lastEvent(state)).toEqual({ type: 'toppingRejected', topping: Topping.SPRINKLES });
+  });
+});
+
+describe('high scores', () => {
+  const earnAndClose = (mode: GameMode, highScore: number) => run(
+    createInitialState({ [Difficulty.EASY]: highScore }),
+    { type: 'START', mode, difficulty: Difficulty.EASY, rules: rulesFor(Difficulty.EASY, { customerLimit: 1 }) },
+    { type: 'CUSTOMER_ARRIVED', customer: customer() },
+    { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA },
+    { type: 'SERVE' },
+    { type: 'ADVANCE' }
+  );
+
+  it('records a better classic score', () => {
+    const state = earnAndClose(GameMode.CLASSIC, 5);
+    expect(state.isNewHighScore).toBe(true);
+    expect(state.highScores[Difficulty.EASY]).toBe(10);
+  });
+
+  it('keeps a score that was not beaten', () => {
+    const state = earnAndClose(GameMode.CLASSIC, 50);
+    expect(state.isNewHighScore).toBe(false);
+    expect(state.highScores[Difficulty.EASY]).toBe(50);
+  });
+
+  it('leaves high scores alone in other modes', () => {
+    const state = earnAndClose(GameMode.CAMPAIGN, 5);
+    expect(state.isNewHighScore).toBe(false);
+    expect(state.highScores[Difficulty.EASY]).toBe(5);
+  });
+});
+
+describe('events', () => {
+  it('keeps every event since an earlier eventId, oldest first', () => {
+    const state = startShift();
+    const seen = state.eventId;
+    const next = run(state, { type: 'SET_CONTAINER', container: Container.CUP }, { type: 'ADD_FLAVOR', flavor: Flavor.VANILLA });
+    expect(getEventsSince(next, seen).map(e => e.type)).toEqual(['containerSet', 'flavorAdded']);
+    expect(getEventsSince(next, next.eventId)).toEqual([]);
+  });
+});
@@ -0,0 +1,510 @@
+import { GameState, GameMode, Difficulty, Customer, Order, Container, Flavor, Topping, Ticket, ShiftRules, CustomerRequest } from '../types';
+import { DIFFICULTY_SETTINGS, FULL_ASSORTMENT, CONTAINERS } from '../constants';
+import { canStackOn, removeScoop, moveScoop } from '../utils/orderUtils';
+import { scoreOrder, calculateReward, isNoticeablyMelted, OrderScore } from '../utils/scoringUtils';
+import { EndlessProgress, ServeSample, createEndlessProgress, recordServe, retuneRules, getEndlessDifficulty } from '../utils/endlessUtils';
+
+// Headless game rules. Everything that decides what happens in a shift lives
+// here as a pure reducer - no React, no timers, no audio, no DOM. The UI
+// dispatches actions and drains `events` for side effects (sounds, saving).
+
+export type HighScores = Record<Difficulty, number>;
+
+// The order being made. `scoopedAt` is the shift clock when each scoop went on,
+// so melting carries through undo/redo without any bookkeeping.
+export interface Build extends Order {
+  scoopedAt: number[];
+}
+
+export type GameEvent =
+  | { type: 'shiftStarted' }
+  | { type: 'customerArrived'; ticket: Ticket }
+  | { type: 'ticketSelected'; ticket: Ticket }
+  | { type: 'containerSet'; container: Container }
+  | { type: 'containerRejected'; container: Container }
+  | { type: 'flavorAdded'; flavor: Flavor }
+  | { type: 'flavorRejected'; flavor: Flavor }
+  | { type: 'toppingToggled'; topping: Topping; isAdded: boolean }
+  | { type: 'toppingRejected'; topping: Topping }
+  | { type: 'buildCleared' }
+  | { type: 'scoopRemoved'; flavor: Flavor; index: number }
+  | { type: 'scoopMoved'; flavor: Flavor; from: number; to: number }
+  | { type: 'buildUndone' }
+  | { type: 'buildRedone' }
+  | { type: 'served'; ticket: Ticket; score: OrderScore; reward: number }
+  | { type: 'walkedOut'; tickets: Ticket[] }
+  | { type: 'gameOver'; coins: number; isNewHighScore: boolean };
+
+// A customer leaving the counter, happy or not; shown until the result screen ends
+export interface Departure {
+  ticket: Ticket;
+  isHappy: boolean;
+}
+
+export interface GameEngineState {
+  phase: GameState;
+  mode: GameMode;
+  difficulty: Difficulty;
+  rules: ShiftRules; // Fixed for the whole shift, except in endless mode
+  endless: EndlessProgress | null; // Endless mode only
+  coins: number;
+  served: number; // Orders accepted this shift
+  strikes: number; // Remaining
+  tickets: Ticket[]; // The line, oldest first
+  activeTicketId: number | null; // The order being built
+  nextTicketId: number;
+  departures: Departure[];
+  clock: number; // Seconds of building this shift, counted by TICK
+  build: Build;
+  // Earlier builds for undo (oldest first) and undone ones for redo (next last)
+  undoStack: Build[];
+  redoStack: Build[];
+  lastScore: OrderScore | null;
+  isSuccess: boolean;
+  feedback: string;
+  highScores: HighScores;
+  isNewHighScore: boolean;
+  // Recent things that happened, oldest first. `eventId` counts every event ever
+  // emitted, so a reader can tell which ones it hasn't seen yet.
+  events: GameEvent[];
+  eventId: number;
+}
+
+export type GameAction =
+  | { type: 'START'; mode: GameMode; difficulty: Difficulty; rules: ShiftRules }
+  | { type: 'CUSTOMER_ARRIVED'; customer: Customer }
+  | { type: 'CUSTOMER_LOST' }
+  | { type: 'TICK' }
+  | { type: 'SELECT_TICKET'; ticketId: number }
+  | { type: 'SET_CONTAINER'; container: Container }
+  | { type: 'ADD_FLAVOR'; flavor: Flavor }
+  | { type: 'AUTO_SCOOP' }
+  | { type: 'TOGGLE_TOPPING'; topping: Topping } // On the current top scoop
+  | { type: 'CYCLE_TOPPING' } // Swap the top scoop's topping for the next one on offer
+  | { type: 'CLEAR' }
+  | { type: 'REMOVE_SCOOP'; index: number }
+  | { type: 'MOVE_SCOOP'; from: number; to: number }
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'SERVE' }
+  | { type: 'ADVANCE' } // Leave the result screen
+  | { type: 'RETURN_TO_MENU' }
+  | { type: 'LOAD_HIGH_SCORES'; highScores: Partial<HighScores> };
+
+export const RESULT_DELAY_MS = 2000;
+const UNDO_LIMIT = 50;
+const EVENT_LIMIT = 50; // Far more than land between two renders
+
+export const emptyBuild = (): Build => ({
+  container: Container.CONE,
+  layers: [],
+  toppings: [],
+  scoopedAt: []
+});
+
+export const createInitialState = (highScores: Partial<HighScores> = {}): GameEngineState => ({
+  phase: GameState.MENU,
+  mode: GameMode.CLASSIC,
+  difficulty: Difficulty.EASY,
+  rules: { ...DIFFICULTY_SETTINGS[Difficulty.EASY], assortment: FULL_ASSORTMENT, meltRates: {} },
+  endless: null,
+  coins: 0,
+  served: 0,
+  strikes: 0,
+  tickets: [],
+  activeTicketId: null,
+  nextTicketId: 1,
+  departures: [],
+  clock: 0,
+  build: emptyBuild(),
+  undoStack: [],
+  redoStack: [],
+  lastScore: null,
+  isSuccess: false,
+  feedback: '',
+  highScores: {
+    [Difficulty.EASY]: 0,
+    [Difficulty.MEDIUM]: 0,
+    [Difficulty.HARD]: 0,
+    [Difficulty.EXPERT]: 0,
+    [Difficulty.MASTER]: 0,
+    ...highScores
+  },
+  isNewHighScore: false,
+  events: [],
+  eventId: 0
+});
+
+// Events emitted since `seenId` (an earlier `eventId`), oldest first
+export const getEventsSince = (state: GameEngineState, seenId: number): GameEvent[] => {
+  const unseen = Math.min(state.eventId - seenId, state.events.length);
+  return unseen > 0 ? state.events.slice(-unseen) : [];
+};
+
+export const getActiveTicket = (state: GameEngineState): Ticket | null => {
+  return state.tickets.find(t => t.id === state.activeTicketId) ?? null;
+};
+
+// What to ask the customer provider for during this shift
+export const getCustomerRequest = (state: GameEngineState): CustomerRequest => ({
+  difficulty: state.difficulty,
+  scoopCount: state.rules.maxScoops,
+  assortment: state.rules.assortment,
+  complexity: state.rules.complexity
+});
+
+// How melted each scoop of the build is, from 0 (fresh) to 1 (a puddle)
+export const getMeltLevels = (state: GameEngineState): number[] => {
+  const { build, clock, rules } = state;
+  return build.scoopedAt.map((at, i) => Math.min(1, (clock - at) * rules.meltRate * (rules.meltRates[build.layers[i]] ?? 1)));
+};
+
+// Customers who have been served or walked out so far
+export const getCustomersDone = (state: GameEngineState): number => state.nextTicketId - 1 - state.tickets.length;
+
+// Whether anyone else will join the line; false once the last customer of the day has arrived
+export const isExpectingCustomers = (state: GameEngineState): boolean => {
+  return state.rules.customerLimit === undefined || state.nextTicketId - 1 < state.rules.customerLimit;
+};
+
+const emit = (state: GameEngineState, event: GameEvent): GameEngineState => ({
+  ...state,
+  events: [...state.events, event].slice(-EVENT_LIMIT),
+  eventId: state.eventId + 1
+});
+
+// Replaces the build, remembering the old one for UNDO. A fresh edit ends any redo chain.
+const editBuild = (state: GameEngineState, build: Build, event: GameEvent): GameEngineState => emit({
+  ...state,
+  build,
+  undoStack: [...state.undoStack, state.build].slice(-UNDO_LIMIT),
+  redoStack: []
+}, event);
+
+// Costs one strike and shows the result screen; ADVANCE decides what comes next
+const loseStrike = (state: GameEngineState, reason: string): GameEngineState => {
+  const strikes = Math.max(0, state.strikes - 1);
+  const feedback = strikes === 0
+    ? `${reason} Game Over.`
+    : `${reason} ${strikes} strike${strikes === 1 ? '' : 's'} left.`;
+  return { ...state, phase: GameState.RESULT, strikes, isSuccess: false, feedback };
+};
+
+// High scores are for classic shifts; other modes keep their own records
+const endShift = (state: GameEngineState, reason: string): GameEngineState => {
+  const isNewHighScore = state.mode === GameMode.CLASSIC && state.coins > (state.highScores[state.difficulty] || 0);
+  const highScores = isNewHighScore
+    ? { ...state.highScores, [state.difficulty]: state.coins }
+    : state.highScores;
+
+  return emit(
+    { ...state, phase: GameState.GAME_OVER, highScores, isNewHighScore, feedback: reason },
+    { type: 'gameOver', coins: state.coins, isNewHighScore }
+  );
+};
+
+// Endless mode retunes the shift after every customer; other modes keep their rules
+const trackServes = (state: GameEngineState, samples: ServeSample[]): GameEngineState => {
+  if (!state.endless) return state;
+  const endless = samples.reduce(recordServe, state.endless);
+  const from = state.endless.level;
+  if (endless.level === from) return { ...state, endless };
+  const note = state.strikes === 0 ? '' : endless.level > from ? ' Level up!' : ' Easing off...';
+  return {
+    ...state,
+    endless,
+    difficulty: getEndlessDifficulty(endless.level),
+    rules: retuneRules(state.rules, from, endless.level),
+    feedback: state.feedback + note
+  };
+};
+
+// How much of their patience a customer had used up when they left
+const patienceUsed = (ticket: Ticket) => 1 - ticket.patience / ticket.maxPatience;
+
+const isBuilding = (state: GameEngineState) => state.phase === GameState.PLAYING;
+
+// Customers keep arriving through serves and result screens, not just while loading
+const isOpen = (state: GameEngineState) => {
+  return state.phase === GameState.LOADING_ORDER || state.phase === GameState.PLAYING || state.phase === GameState.RESULT;
+};
+
+// Drops tickets from the line, moving focus to the oldest remaining one if needed
+const removeTickets = (state: GameEngineState, ids: number[]): GameEngineState => {
+  const tickets = state.tickets.filter(t => !ids.includes(t.id));
+  const activeTicketId = tickets.some(t => t.id === state.activeTicketId)
+    ? state.activeTicketId
+    : tickets[0]?.id ?? null;
+  return { ...state, tickets, activeTicketId };
+};
+
+export const gameReducer = (state: GameEngineState, action: GameAction): GameEngineState => {
+  switch (action.type) {
+    case 'START':
+      return emit({
+        ...state,
+        phase: GameState.LOADING_ORDER,
+        mode: action.mode,
+        difficulty: action.difficulty,
+        rules: action.rules,
+        endless: action.mode === GameMode.ENDLESS ? createEndlessProgress() : null,
+        coins: 0,
+        served: 0,
+        strikes: action.rules.strikes,
+        tickets: [],
+        activeTicketId: null,
+        nextTicketId: 1,
+        departures: [],
+        clock: 0,
+        build: emptyBuild(),
+        undoStack: [],
+        redoStack: [],
+        lastScore: null,
+        isSuccess: false,
+        isNewHighScore: false,
+        feedback: 'Here comes a customer...'
+      }, { type: 'shiftStarted' });
+
+    case 'CUSTOMER_ARRIVED': {
+      if (!isOpen(state) || state.tickets.length >= state.rules.maxCustomers || !isExpectingCustomers(state)) return state;
+      // Joining a longer line, they are prepared to wait longer
+      const patience = state.rules.timeLimit * (state.tickets.length + 1);
+      const ticket: Ticket = { id: state.nextTicketId, customer: action.customer, patience, maxPatience: patience };
+      return emit({
+        ...state,
+        phase: state.phase === GameState.LOADING_ORDER ? GameState.PLAYING : state.phase,
+        tickets: [...state.tickets, ticket],
+        activeTicketId: state.activeTicketId ?? ticket.id,
+        nextTicketId: state.nextTicketId + 1
+      }, { type: 'customerArrived', ticket });
+    }
+
+    case 'CUSTOMER_LOST':
+      if (state.phase !== GameState.LOADING_ORDER) return state;
+      return { ...state, feedback: 'Customer got lost!' };
+
+    case 'SELECT_TICKET': {
+      const ticket = state.tickets.find(t => t.id === action.ticketId);
+      if (!isBuilding(state) || !ticket || ticket.id === state.activeTicketId) return state;
+      return emit({ ...state, activeTicketId: ticket.id }, { type: 'ticketSelected', ticket });
+    }
+
+    case 'TICK': {
+      if (!isBuilding(state) || state.tickets.length === 0) return state;
+      const tickets = state.tickets.map(t => ({ ...t, patience: Math.max(0, t.patience - 1) }));
+      const clock = state.clock + 1;
+      const leaving = tickets.filter(t => t.patience === 0);
+      if (leaving.length === 0) return { ...state, tickets, clock };
+
+      const reason = leaving.length === 1
+        ? `${leaving[0].customer.name} walked out!`
+        : `${leaving.length} customers walked out!`;
+      const departures = [...state.departures, ...leaving.map(ticket => ({ ticket, isHappy: false }))];
+      let next = removeTickets({ ...state, tickets, clock, departures }, leaving.map(t => t.id));
+      for (let i = 0; i < leaving.length; i++) {
+        next = loseStrike(next, reason);
+      }
+      next = trackServes(next, leaving.map(() => ({ accuracy: 0, patienceUsed: 1 })));
+      return emit(next, { type: 'walkedOut', tickets: leaving });
+    }
+
+    case 'SET_CONTAINER': {
+      if (!isBuilding(state) || !state.rules.assortment.containers.includes(action.container)) return state;
+      const { capacity } = CONTAINERS[action.container];
+      if (state.build.layers.length > capacity) {
+        return emit(
+          { ...state, feedback: `${action.container} only holds ${capacity}!` },
+          { type: 'containerRejected', container: action.container }
+        );
+      }
+      return editBuild(state, { ...state.build, container: action.container }, { type: 'containerSet', container: action.container });
+    }
+
+    case 'ADD_FLAVOR': {
+      if (!isBuilding(state) || !state.rules.assortment.flavors.includes(action.flavor)) return state;
+      const { capacity } = CONTAINERS[state.build.container];
+      if (state.build.layers.length >= capacity) {
+        return emit({ ...state, feedback: `${state.build.container} is full!` }, { type: 'flavorRejected', flavor: action.flavor });
+      }
+      const max = state.rules.maxScoops + 1; // Allow 1 extra for mistakes
+      if (state.build.layers.length >= max) {
+        return emit({ ...state, feedback: 'Too high! Use Trash.' }, { type: 'flavorRejected', flavor: action.flavor });
+      }
+      const topLayer = state.build.layers.length - 1;
+      const blocker = state.build.toppings.find(p => p.layer === topLayer && !canStackOn(state.build.container, p.topping));
+      if (blocker) {
+        return emit(
+          { ...state, feedback: `Can't stack on ${blocker.topping}!` },
+          { type: 'flavorRejected', flavor: action.flavor }
+        );
+      }
+      return editBuild(
+        state,
+        { ...state.build, layers: [...state.build.layers, action.flavor], scoopedAt: [...state.build.scoopedAt, state.clock] },
+        { type: 'flavorAdded', flavor: action.flavor }
+      );
+    }
+
+    case 'AUTO_SCOOP': {
+      // Only helps while the stack so far is right
+      const target = getActiveTicket(state)?.customer.order.layers;
+      const layers = state.build.layers;
+      if (!isBuilding(state) || !target || layers.length >= target.length) return state;
+      if (layers.length >= CONTAINERS[state.build.container].capacity) return state;
+      if (!layers.every((f, i) => f === target[i])) return state;
+      const flavor = target[layers.length];
+      return editBuild(
+        state,
+        { ...state.build, layers: [...layers, flavor], scoopedAt: [...state.build.scoopedAt, state.clock] },
+        { type: 'flavorAdded', flavor }
+      );
+    }
+
+    case 'TOGGLE_TOPPING': {
+      if (!isBuilding(state) || !state.rules.assortment.toppings.includes(action.topping)) return state;
+      const layer = state.build.layers.length - 1;
+      if (layer < 0) {
+        return emit({ ...state, feedback: 'Add a scoop first!' }, { type: 'toppingRejected', topping: action.topping });
+      }
+      const isPresent = state.build.toppings.some(p => p.layer === layer && p.topping === action.topping);
+      const toppings = isPresent
+        ? state.build.toppings.filter(p => !(p.layer === layer && p.topping === action.topping))
+        : [...state.build.toppings, { topping: action.topping, layer }];
+      return editBuild(
+        state,
+        { ...state.build, toppings },
+        { type: 'toppingToggled', topping: action.topping, isAdded: !isPresent }
+      );
+    }
+
+    case 'CYCLE_TOPPING': {
+      const available = state.rules.assortment.toppings;
+      if (!isBuilding(state) || available.length === 0) return state;
+      const layer = state.build.layers.length - 1;
+      if (layer < 0) {
+        return emit({ ...state, feedback: 'Add a scoop first!' }, { type: 'toppingRejected', topping: available[0] });
+      }
+      // None -> first -> second -> ... -> last -> none
+      const current = state.build.toppings.filter(p => p.layer === layer).map(p => available.indexOf(p.topping));
+      const next = available[Math.max(-1, ...current) + 1];
+      const others = state.build.toppings.filter(p => p.layer !== layer);
+      if (!next) {
+        const removed = state.build.toppings.find(p => p.layer === layer);
+        if (!removed) return state;
+        return editBuild(state, { ...state.build, toppings: others }, { type: 'toppingToggled', topping: removed.topping, isAdded: false });
+      }
+      return editBuild(
+        state,
+        { ...state.build, toppings: [...others, { topping: next, layer }] },
+        { type: 'toppingToggled', topping: next, isAdded: true }
+      );
+    }
+
+    case 'CLEAR':
+      if (!isBuilding(state) || state.build.layers.length === 0) return state;
+      return editBuild(state, { ...state.build, layers: [], toppings: [], scoopedAt: [] }, { type: 'buildCleared' });
+
+    case 'REMOVE_SCOOP': {
+      const flavor = state.build.layers[action.index];
+      if (!isBuilding(state) || flavor === undefined) return state;
+      const scoopedAt = state.build.scoopedAt.filter((_, i) => i !== action.index);
+      return editBuild(
+        state,
+        { ...removeScoop(state.build, action.index), scoopedAt },
+        { type: 'scoopRemoved', flavor, index: action.index }
+      );
+    }
+
+    case 'MOVE_SCOOP': {
+      const { from, to } = action;
+      const count = state.build.layers.length;
+      if (!isBuilding(state) || from === to || from < 0 || to < 0 || from >= count || to >= count) return state;
+      const scoopedAt = [...state.build.scoopedAt];
+      scoopedAt.splice(to, 0, ...scoopedAt.splice(from, 1));
+      return editBuild(
+        state,
+        { ...moveScoop(state.build, from, to), scoopedAt },
+        { type: 'scoopMoved', flavor: state.build.layers[from], from, to }
+      );
+    }
+
+    case 'UNDO': {
+      const previous = state.undoStack[state.undoStack.length - 1];
+      if (!isBuilding(state) || !previous) return state;
+      return emit({
+        ...state,
+        build: previous,
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, state.build]
+      }, { type: 'buildUndone' });
+    }
+
+    case 'REDO': {
+      const next = state.redoStack[state.redoStack.length - 1];
+      if (!isBuilding(state) || !next) return state;
+      return emit({
+        ...state,
+        build: next,
+        undoStack: [...state.undoStack, state.build],
+        redoStack: state.redoStack.slice(0, -1)
+      }, { type: 'buildRedone' });
+    }
+
+    case 'SERVE': {
+      const ticket = getActiveTicket(state);
+      if (!isBuilding(state) || !ticket) return state;
+      const melt = getMeltLevels(state);
+      const score = scoreOrder(ticket.customer.order, state.build, melt.length ? melt.reduce((a, b) => a + b, 0) / melt.length : 0);
+      const served = removeTickets(
+        { ...state, departures: [...state.departures, { ticket, isHappy: score.isPassing }] },
+        [ticket.id]
+      );
+      const sample = { accuracy: score.accuracy, patienceUsed: patienceUsed(ticket) };
+
+      if (!score.isPassing) {
+        return emit(
+          trackServes({ ...loseStrike(served, `Wrong Order (${score.accuracy}%)!`), lastScore: score }, [sample]),
+          { type: 'served', ticket, score, reward: 0 }
+        );
+      }
+
+      const reward = calculateReward(score, state.rules.coinMultiplier);
+      const meltNote = isNoticeablyMelted(score) ? ' A bit melty!' : '';
+      return emit(trackServes({
+        ...served,
+        phase: GameState.RESULT,
+        coins: state.coins + reward,
+        served: state.served + 1,
+        lastScore: score,
+        isSuccess: score.isPerfect,
+        feedback: (score.isPerfect
+          ? `Perfect! +${reward} Coins!`
+          : `Close enough (${score.accuracy}%)! +${reward} Coins`) + meltNote
+      }, [sample]), { type: 'served', ticket, score, reward });
+    }
+
+    case 'ADVANCE':
+      if (state.phase !== GameState.RESULT) return state;
+      if (state.strikes === 0) return endShift(state, 'Out of strikes!');
+      if (state.tickets.length === 0 && !isExpectingCustomers(state)) return endShift(state, 'Closing time!');
+      return {
+        ...state,
+        phase: state.tickets.length > 0 ? GameState.PLAYING : GameState.LOADING_ORDER,
+        departures: [],
+        // A served cone is handed over; a walk-out leaves the work in progress alone
+        ...(state.lastScore ? { build: emptyBuild(), undoStack: [], redoStack: [] } : {}),
+        lastScore: null,
+        isSuccess: false,
+        feedback: 'Here comes a customer...'
+      };
+
+    case 'RETURN_TO_MENU':
+      return { ...state, phase: GameState.MENU, tickets: [], activeTicketId: null, departures: [], build: emptyBuild(), undoStack: [], redoStack: [] };
+
+    case 'LOAD_HIGH_SCORES':
+      return { ...state, highScores: { ...state.highScores, ...action.highScores } };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,188 @@
+import { Difficulty, Customer, Flavor, FlavorDefinition } from '../types';
+import { GameAction, GameEngineState, gameReducer, createInitialState } from './gameEngine';
+import { validateCustomer } from '../utils/orderValidation';
+import { getCustomFlavors, parseCustomFlavors, withCustomFlavors } from '../utils/flavorRegistry';
+
+// A shift is fully described by the actions fed into the engine, so a
+// recording is just that action log with timestamps. Replaying it through
+// the same reducer reproduces the shift exactly.
+
+export const RECORDING_VERSION = 7; // 2: customers wait in a line, 3: shift rules in START, 4: topping lists, 5: melting, 6: game modes, 7: container capacities and embedded custom flavors
+
+export interface RecordedEntry {
+  t: number; // ms since the shift started
+  action: GameAction;
+}
+
+export interface SessionRecording {
+  version: number;
+  recordedAt: string; // ISO date
+  difficulty: Difficulty;
+  seed: number | null; // Seed of the customer provider, when it has one
+  customers: Customer[]; // In order of arrival
+  flavors: FlavorDefinition[]; // Custom flavors the shift used, so it plays back without the recorder's editor
+  entries: RecordedEntry[];
+}
+
+type RecordedActionType = Exclude<GameAction['type'], 'LOAD_HIGH_SCORES' | 'RETURN_TO_MENU'>;
+
+// Every action that is part of a shift. The rest only touch storage or navigation.
+const RECORDED_ACTIONS: Record<RecordedActionType, true> = {
+  START: true,
+  CUSTOMER_ARRIVED: true,
+  CUSTOMER_LOST: true,
+  TICK: true,
+  SELECT_TICKET: true,
+  SET_CONTAINER: true,
+  ADD_FLAVOR: true,
+  AUTO_SCOOP: true,
+  TOGGLE_TOPPING: true,
+  CYCLE_TOPPING: true,
+  CLEAR: true,
+  REMOVE_SCOOP: true,
+  MOVE_SCOOP: true,
+  UNDO: true,
+  REDO: true,
+  SERVE: true,
+  ADVANCE: true
+};
+
+const isRecordable = (action: GameAction) => Object.hasOwn(RECORDED_ACTIONS, action.type);
+
+// Custom flavors a shift could show: everything on offer plus whatever was ordered or scooped
+const getUsedCustomFlavors = (entries: RecordedEntry[]): FlavorDefinition[] => {
+  const ids = new Set<Flavor>(entries.flatMap(({ action }) => {
+    switch (action.type) {
+      case 'START': return action.rules.assortment.flavors;
+      case 'CUSTOMER_ARRIVED': return action.customer.order.layers;
+      case 'ADD_FLAVOR': return [action.flavor];
+      default: return [];
+    }
+  }));
+  return getCustomFlavors().filter(f => ids.has(f.id));
+};
+
+export interface SessionRecorder {
+  start: (difficulty: Difficulty, seed: number | null) => void;
+  record: (action: GameAction) => void;
+  finish: () => SessionRecording | null;
+}
+
+export const createSessionRecorder = (now: () => number = Date.now): SessionRecorder => {
+  let recording: SessionRecording | null = null;
+  let startedAt = 0;
+
+  return {
+    start: (difficulty, seed) => {
+      startedAt = now();
+      recording = {
+        version: RECORDING_VERSION,
+        recordedAt: new Date(startedAt).toISOString(),
+        difficulty,
+        seed,
+        customers: [],
+        flavors: [],
+        entries: []
+      };
+    },
+    record: (action) => {
+      if (!recording || !isRecordable(action)) return;
+      if (action.type === 'CUSTOMER_ARRIVED') recording.customers.push(action.customer);
+      recording.entries.push({ t: now() - startedAt, action });
+    },
+    finish: () => {
+      const finished = recording && { ...recording, flavors: getUsedCustomFlavors(recording.entries) };
+      recording = null;
+      return finished;
+    }
+  };
+};
+
+export const getRecordingDuration = (recording: SessionRecording): number => {
+  return recording.entries.length > 0 ? recording.entries[recording.entries.length - 1].t : 0;
+};
+
+// The custom flavors to register while a recording plays: its own, then any live
+// ones it doesn't redefine
+export const getReplayFlavors = (recording: SessionRecording): FlavorDefinition[] => {
+  const ids = new Set(recording.flavors.map(f => f.id));
+  return [...recording.flavors, ...getCustomFlavors().filter(f => !ids.has(f.id))];
+};
+
+export interface ReplayProgress {
+  state: GameEngineState;
+  cursor: number; // Next entry to apply
+  error?: string; // Set when an entry couldn't be applied; playback should stop there
+}
+
+/**
+ * Applies every entry up to `elapsed` ms, starting from `from` (an earlier
+ * result of this function) so playback can advance incrementally.
+ */
+export const advanceReplay = (
+  recording: SessionRecording,
+  elapsed: number,
+  from: ReplayProgress = { state: createInitialState(), cursor: 0 }
+): ReplayProgress => {
+  let { state, cursor } = from;
+  while (cursor < recording.entries.length && recording.entries[cursor].t <= elapsed) {
+    try {
+      state = gameReducer(state, recording.entries[cursor].action);
+    } catch (e) {
+      return { state, cursor, error: `Replay stopped at entry ${cursor + 1}: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    cursor++;
+  }
+  return { state, cursor };
+};
+
+export const serializeRecording = (recording: SessionRecording): string => {
+  return JSON.stringify(recording, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// One entry of a loaded file. Customers get the same checks as a customer script;
+// other actions are only checked for a known type, the reducer ignores the rest.
+const parseEntry = (raw: unknown, index: number): RecordedEntry => {
+  const fail = (reason: string) => new Error(`Entry ${index + 1}: ${reason}`);
+  if (!isRecord(raw) || !isRecord(raw.action)) throw fail('not an action');
+  const { t, action } = raw;
+  if (typeof t !== 'number' || !Number.isFinite(t)) throw fail('missing its time');
+  if (typeof action.type !== 'string' || !Object.hasOwn(RECORDED_ACTIONS, action.type)) {
+    throw fail(`unknown action "${String(action.type)}"`);
+  }
+  if (action.type === 'CUSTOMER_ARRIVED') {
+    const { customer, issues } = validateCustomer(action.customer);
+    if (!customer) throw fail(issues.join('; '));
+    return { t, action: { type: 'CUSTOMER_ARRIVED', customer } };
+  }
+  return { t, action: action as GameAction };
+};
+
+export const parseRecording = (text: string): SessionRecording => {
+  const parsed = JSON.parse(text);
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Recording must be a JSON object');
+  }
+  if (parsed.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${parsed.version} (expected ${RECORDING_VERSION})`);
+  }
+  if (!Object.values(Difficulty).includes(parsed.difficulty)) {
+    throw new Error(`Unknown difficulty "${parsed.difficulty}"`);
+  }
+  if (!Array.isArray(parsed.entries) || !Array.isArray(parsed.customers)) {
+    throw new Error('Recording is missing its entries or customers');
+  }
+  // Customers may order the recording's own custom flavors
+  const flavors = parseCustomFlavors(parsed.flavors);
+  const entries = withCustomFlavors(getReplayFlavors({ ...parsed, flavors }), () => parsed.entries.map(parseEntry));
+  return {
+    ...parsed,
+    flavors,
+    entries,
+    customers: entries.flatMap(e => e.action.type === 'CUSTOMER_ARRIVED' ? [e.action.customer] : [])
+  } as SessionRecording;
+};
@@ -0,0 +1,125 @@
+import { Customer, Order, Topping, ToppingPlacement, CustomerRequest, Container, ContainerLayout } from "../types";
+import { CONTAINERS } from "../constants";
+import { createRandom, pick, randomInt, RandomFn } from "../utils/random";
+import { getTopToppings, getGarnishes, canStackOn, getContainersFor, getLargestCapacity, getTopToppingLimit } from "../utils/orderUtils";
+import { getFlavorName } from "../utils/flavorRegistry";
+
+// Offline procedural customers. Used whenever Gemini is unavailable,
+// and seeded so the same seed always produces the same line of customers.
+
+const FIRST_NAMES = [
+  "Timmy", "Priya", "Gus", "Marisol", "Otto", "Yuki", "Bea", "Kofi",
+  "Lars", "Ines", "Ziggy", "Hana", "Rufus", "Noor", "Dex", "Pearl"
+];
+
+const TITLES = ["", "", "", "Grandma ", "Captain ", "Dr. ", "Chef ", "Little "];
+
+interface Persona {
+  personality: string;
+  templates: string[]; // {order} is replaced with a description of the order
+}
+
+const PERSONAS: Persona[] = [
+  {
+    personality: "Likes simple things.",
+    templates: ["I just want {order}!", "Nothing fancy. {order}, please."]
+  },
+  {
+    personality: "Dramatic theatre kid.",
+    templates: ["Behold! I desire {order}!", "My soul cries out for {order}. Quickly!"]
+  },
+  {
+    personality: "Impatient businessperson.",
+    templates: ["{order}. I have a meeting in five minutes.", "Time is money. {order}. Go."]
+  },
+  {
+    personality: "Overly polite tourist.",
+    templates: ["Excuse me, if it's no trouble, could I get {order}?", "Sorry to bother you! {order}, maybe?"]
+  },
+  {
+    personality: "Pirate on shore leave.",
+    templates: ["Arr! Fetch me {order}, matey!", "Me treasure for {order}, and be quick about it!"]
+  },
+  {
+    personality: "Sleepy night owl.",
+    templates: ["*yawn* ...{order}... please...", "Is it morning? Whatever. {order}."]
+  },
+  {
+    personality: "Food critic.",
+    templates: ["I shall evaluate {order}. Do not disappoint.", "{order}. My review depends on it."]
+  }
+];
+
+const describeOrder = (order: Order): string => {
+  const names = order.layers.map(getFlavorName);
+  const isRow = CONTAINERS[order.container].layout === ContainerLayout.ROW;
+  const top = getTopToppings(order);
+  const toppings = top.length === 0 ? "" : ` with ${top.join(" and ").toLowerCase()} ${isRow ? `on the ${names[names.length - 1]}` : "on top"}`;
+  const garnishes = getGarnishes(order)
+    .map(g => ` (${g.topping.toLowerCase()} on the ${names[g.layer]})`)
+    .join("");
+  if (isRow) {
+    return `a ${order.container.toLowerCase()} with ${names.join(", ")} side by side${garnishes}${toppings}`;
+  }
+  return `a ${order.container.toLowerCase()} of ${names.join(", then ")}${garnishes}${toppings}`;
+};
+
+// Chance of a garnish between any two scoops, at full complexity
+const GARNISH_CHANCE = 0.25;
+
+const buildToppings = (random: RandomFn, container: Container, scoopCount: number, available: Topping[], complexity = 1): ToppingPlacement[] => {
+  const placements: ToppingPlacement[] = [];
+  const top = scoopCount - 1;
+
+  // Up to two different toppings on top, often none
+  const pool = [...available];
+  const topCount = randomInt(random, 0, Math.min(getTopToppingLimit(complexity), pool.length));
+  for (let i = 0; i < topCount; i++) {
+    const topping = pool.splice(Math.floor(random() * pool.length), 1)[0];
+    placements.push({ topping, layer: top });
+  }
+
+  const layerable = available.filter(t => canStackOn(container, t));
+  for (let layer = 0; layer < top && layerable.length > 0; layer++) {
+    if (random() < GARNISH_CHANCE * complexity) placements.push({ topping: pick(random, layerable), layer });
+  }
+  return placements;
+};
+
+const buildOrder = (random: RandomFn, request: CustomerRequest): Order => {
+  const { flavors, toppings, containers } = request.assortment;
+  // Never more scoops than the biggest base on offer holds, so some base always fits
+  const scoopCount = Math.min(request.scoopCount, getLargestCapacity(containers));
+  const container = pick(random, getContainersFor(containers, scoopCount));
+  return {
+    container,
+    layers: Array.from({ length: scoopCount }, () => pick(random, flavors)),
+    toppings: buildToppings(random, container, scoopCount, toppings, request.complexity)
+  };
+};
+
+export const buildCustomer = (random: RandomFn, request: CustomerRequest): Customer => {
+  const order = buildOrder(random, request);
+  const persona = pick(random, PERSONAS);
+  const template = pick(random, persona.templates);
+
+  return {
+    name: `${pick(random, TITLES)}${pick(random, FIRST_NAMES)}`,
+    personality: persona.personality,
+    dialogue: template.replace("{order}", describeOrder(order)),
+    order
+  };
+};
+
+export interface CustomerGenerator {
+  seed: number;
+  next: (request: CustomerRequest) => Customer;
+}
+
+export const createCustomerGenerator = (seed: number): CustomerGenerator => {
+  const random = createRandom(seed);
+  return {
+    seed,
+    next: (request: CustomerRequest) => buildCustomer(random, request)
+  };
+};
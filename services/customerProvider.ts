@@ -0,0 +1,75 @@
+import { Customer, CustomerSource, CustomerRequest, Container } from "../types";
+import { createCustomerGenerator } from "./customerGenerator";
+import { createGeminiProvider } from "./geminiService";
+import { randomSeed } from "../utils/random";
+import { validateCustomer } from "../utils/orderValidation";
+import { getLargestCapacity } from "../utils/orderUtils";
+
+// Where customers come from. App.tsx only talks to this interface,
+// so the game runs the same against Gemini, the local generator or a script.
+export interface CustomerProvider {
+  source: CustomerSource;
+  seed: number | null; // Set when the customers are procedurally generated
+  // The signal is aborted when a prefetched request is no longer wanted
+  getCustomer: (request: CustomerRequest, signal?: AbortSignal) => Promise<Customer>;
+}
+
+export const createLocalProvider = (seed: number = randomSeed()): CustomerProvider => {
+  const generator = createCustomerGenerator(seed);
+  return {
+    source: CustomerSource.LOCAL,
+    seed,
+    getCustomer: async (request: CustomerRequest) => generator.next(request)
+  };
+};
+
+// Scripts aren't written for a difficulty, so a scripted shift allows as many
+// scoops as the biggest base holds; validation already keeps every order within its base.
+export const SCRIPTED_MAX_SCOOPS = getLargestCapacity(Object.values(Container));
+
+// Replays a fixed list of customers in order, looping when it runs out.
+// The request is ignored: the script decides what gets ordered. Shifts using it
+// should raise their scoop limit to SCRIPTED_MAX_SCOOPS.
+export const createScriptedProvider = (customers: Customer[]): CustomerProvider => {
+  let index = 0;
+  return {
+    source: CustomerSource.SCRIPTED,
+    seed: null,
+    getCustomer: async () => {
+      if (customers.length === 0) {
+        throw new Error("Customer script is empty");
+      }
+      const customer = customers[index % customers.length];
+      index++;
+      return customer;
+    }
+  };
+};
+
+export const createCustomerProvider = (source: CustomerSource, scriptedCustomers: Customer[] = []): CustomerProvider => {
+  switch (source) {
+    case CustomerSource.LOCAL:
+      return createLocalProvider();
+    case CustomerSource.SCRIPTED:
+      return createScriptedProvider(scriptedCustomers);
+    case CustomerSource.GEMINI:
+    default:
+      return createGeminiProvider();
+  }
+};
+
+// Parses a customer script file. Expects a JSON array of customers;
+// throws with the reasons if any entry cannot be served.
+export const parseCustomerScript = (text: string): Customer[] => {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Customer script must be a JSON array");
+  }
+  return parsed.map((raw, i) => {
+    const { customer, issues } = validateCustomer(raw);
+    if (!customer) {
+      throw new Error(`Customer ${i + 1}: ${issues.join("; ")}`);
+    }
+    return customer;
+  });
+};
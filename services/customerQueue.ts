@@ -0,0 +1,58 @@
+import { Customer, CustomerRequest } from "../types";
+import { PREFETCH_SIZE } from "../constants";
+import type { CustomerProvider } from "./customerProvider";
+
+// Keeps a few customers requested ahead of time so the next one is
+// (usually) ready the moment the current one is served.
+export interface CustomerQueue {
+  // Start filling for a request. Entries made for any other request are dropped.
+  prime: (request: CustomerRequest) => void;
+  // Next customer for the request, waiting only if nothing is ready yet
+  take: (request: CustomerRequest) => Promise<Customer>;
+  // Cancel in-flight requests and drop everything queued
+  clear: () => void;
+}
+
+export const createCustomerQueue = (provider: CustomerProvider, size: number = PREFETCH_SIZE): CustomerQueue => {
+  let request: CustomerRequest | null = null;
+  let requestKey = '';
+  let entries: Promise<Customer>[] = [];
+  let controller = new AbortController();
+
+  const fill = () => {
+    if (request === null) return;
+    while (entries.length < size) {
+      const entry = provider.getCustomer(request, controller.signal);
+      // Entries that get discarded are never awaited; keep their failures quiet
+      entry.catch(() => {});
+      entries.push(entry);
+    }
+  };
+
+  const clear = () => {
+    controller.abort();
+    controller = new AbortController();
+    entries = [];
+    request = null;
+    requestKey = '';
+  };
+
+  const prime = (next: CustomerRequest) => {
+    const nextKey = JSON.stringify(next);
+    if (requestKey !== nextKey) {
+      clear();
+      request = next;
+      requestKey = nextKey;
+    }
+    fill();
+  };
+
+  const take = (next: CustomerRequest) => {
+    prime(next);
+    const entry = entries.shift()!;
+    fill();
+    return entry;
+  };
+
+  return { prime, take, clear };
+};
@@ -1,9 +1,17 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Difficulty, Customer, Flavor, Topping, Container } from "../types";
-import { FALLBACK_CUSTOMER } from "../constants";
+import { Customer, Flavor, Topping, Container, ContainerLayout, CustomerSource, CustomerRequest } from "../types";
+import { createCustomerGenerator, CustomerGenerator } from "./customerGenerator";
+import type { CustomerProvider } from "./customerProvider";
+import { randomSeed } from "../utils/random";
+import { validateCustomer, MAX_DIALOGUE_LENGTH } from "../utils/orderValidation";
+import { LAYERABLE_TOPPINGS, CONTAINERS } from "../constants";
+import { getContainersFor, getLargestCapacity, getTopToppingLimit } from "../utils/orderUtils";
+import { getFlavor } from "../utils/flavorRegistry";
 
-// Define the response schema for strict JSON output
-const customerSchema: Schema = {
+// Define the response schema for strict JSON output.
+// Flavors include the player's custom ones, toppings follow the day's assortment
+// and containers depend on the scoop count, so the enums are built per request.
+const buildCustomerSchema = (flavors: Flavor[], toppings: Topping[], containers: Container[]): Schema => ({
   type: Type.OBJECT,
   properties: {
     name: { type: Type.STRING, description: "Customer name" },
@@ -12,61 +20,130 @@ const customerSchema: Schema = {
     order: {
       type: Type.OBJECT,
       properties: {
-        container: { type: Type.STRING, enum: Object.values(Container) },
+        container: { type: Type.STRING, enum: containers },
         layers: {
           type: Type.ARRAY,
-          items: { type: Type.STRING, enum: Object.values(Flavor) },
-          description: "List of flavors from bottom to top"
+          items: { type: Type.STRING, enum: flavors },
+          description: "List of flavors from bottom to top, or left to right in side-by-side containers"
         },
-        topping: { type: Type.STRING, enum: Object.values(Topping) }
+        toppings: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              topping: { type: Type.STRING, enum: toppings },
+              layer: { type: Type.INTEGER, description: "Index of the scoop it goes on, 0 = bottom" }
+            },
+            required: ["topping", "layer"]
+          },
+          description: "Toppings and where they go. May be empty."
+        }
       },
-      required: ["container", "layers", "topping"]
+      required: ["container", "layers", "toppings"]
     }
   },
   required: ["name", "personality", "dialogue", "order"]
+});
+
+const describeContainer = (container: Container) => {
+  const { layout, capacity } = CONTAINERS[container];
+  const arrangement = layout === ContainerLayout.ROW ? 'side by side' : 'stacked';
+  return `${container} (${arrangement}, holds up to ${capacity})`;
+};
+
+// Custom flavors have ids that differ from their names; the model needs both
+const describeFlavor = (id: Flavor) => {
+  const { name } = getFlavor(id);
+  return name === id ? name : `${name} (id "${id}")`;
 };
 
-export const generateCustomerOrder = async (difficulty: Difficulty): Promise<Customer> => {
+const GEMINI_MODEL = "gemini-2.5-flash";
+const MAX_ATTEMPTS = 3; // Regenerate rejected responses this many times before falling back
+
+const generateCustomerOrder = async (
+  request: CustomerRequest,
+  fallbackGenerator: CustomerGenerator,
+  signal?: AbortSignal
+): Promise<Customer> => {
   if (!process.env.API_KEY) {
-    console.warn("No API Key found. Using fallback customer.");
-    return FALLBACK_CUSTOMER as unknown as Customer;
+    console.warn("No API Key found. Using local customer generator.");
+    return fallbackGenerator.next(request);
   }
 
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
-  let numScoops = 1;
-  if (difficulty === Difficulty.MEDIUM) numScoops = 2;
-  if (difficulty === Difficulty.HARD) numScoops = 3;
-  if (difficulty === Difficulty.EXPERT) numScoops = 4;
-  if (difficulty === Difficulty.MASTER) numScoops = 5;
+  const { assortment } = request;
+  // Never more scoops than the biggest base on offer holds
+  const scoopCount = Math.min(request.scoopCount, getLargestCapacity(assortment.containers));
+  const containers = getContainersFor(assortment.containers, scoopCount);
+  const topLimit = getTopToppingLimit(request.complexity);
+  const toppingRules = topLimit === 0
+    ? 'This customer wants no toppings at all.'
+    : `Toppings usually go on the top scoop (layer ${scoopCount - 1}), up to ${topLimit === 1 ? 'one' : 'two'} of them.
+    ${LAYERABLE_TOPPINGS.join(', ')} may also go between scoops, on a lower layer.
+    In side-by-side containers any topping can go on any scoop.`;
 
   const prompt = `
     Generate a fun ice cream shop customer.
-    They want an ice cream with exactly ${numScoops} scoop(s).
-    Available Flavors: ${Object.values(Flavor).join(', ')}.
-    Available Toppings: ${Object.values(Topping).join(', ')}.
-    Available Containers: ${Object.values(Container).join(', ')}.
+    They want an ice cream with exactly ${scoopCount} scoop(s).
+    Available Flavors: ${assortment.flavors.map(describeFlavor).join(', ')}.
+    Use flavor ids in the order and flavor names in the dialogue.
+    Available Toppings: ${assortment.toppings.join(', ')}.
+    Available Containers: ${containers.map(describeContainer).join(', ')}.
+    ${toppingRules}
     
     Make the dialogue funny or quirky based on their personality.
+    Keep the dialogue under ${MAX_DIALOGUE_LENGTH} characters.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: customerSchema,
-        temperature: 1.2, // High creativity
-      },
-    });
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildCustomerSchema(assortment.flavors, assortment.toppings, containers),
+          temperature: 1.2, // High creativity
+          abortSignal: signal,
+        },
+      });
+
+      if (!response.text) {
+        console.warn(`Gemini response rejected (attempt ${attempt}/${MAX_ATTEMPTS}): empty response`);
+        continue;
+      }
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(response.text);
+      } catch {
+        console.warn(`Gemini response rejected (attempt ${attempt}/${MAX_ATTEMPTS}): invalid JSON`);
+        continue;
+      }
 
-    if (response.text) {
-      return JSON.parse(response.text) as Customer;
+      const { customer, issues } = validateCustomer(parsed, { scoopCount, assortment });
+      if (customer) {
+        if (issues.length > 0) console.warn("Gemini response repaired:", issues.join("; "));
+        return customer;
+      }
+      console.warn(`Gemini response rejected (attempt ${attempt}/${MAX_ATTEMPTS}):`, issues.join("; "));
     }
-    throw new Error("Empty response");
+    throw new Error("No valid customer after retries");
   } catch (error) {
+    // Nobody is waiting for a cancelled request, so don't fall back
+    if (signal?.aborted) throw error;
     console.error("Gemini API Error:", error);
-    return FALLBACK_CUSTOMER as unknown as Customer;
+    return fallbackGenerator.next(request);
   }
-};
\ No newline at end of file
+};
+
+export const createGeminiProvider = (fallbackSeed: number = randomSeed()): CustomerProvider => {
+  // Offline fallback when there is no key or the API fails
+  const fallbackGenerator = createCustomerGenerator(fallbackSeed);
+  return {
+    source: CustomerSource.GEMINI,
+    seed: fallbackSeed,
+    getCustomer: (request: CustomerRequest, signal?: AbortSignal) => generateCustomerOrder(request, fallbackGenerator, signal)
+  };
+};
@@ -0,0 +1,87 @@
+import { InputAction, InputBindings } from "../types";
+import { findActionForKey, findActionForButton } from "../utils/inputBindings";
+
+// Turns keyboard and gamepad presses into InputActions. Bindings are read on every
+// press, so rebinding takes effect without recreating the controller.
+
+export interface CapturedInput {
+  key?: string;
+  button?: number;
+}
+
+export interface InputController {
+  // The next key or button press is handed to `onCapture` instead of triggering
+  // an action. Escape cancels with null.
+  capture: (onCapture: (input: CapturedInput | null) => void) => void;
+  cancelCapture: () => void;
+  dispose: () => void;
+}
+
+// Returns whether the action was used, so unused keys keep their browser behaviour
+export type InputHandler = (action: InputAction) => boolean;
+
+const isTextEntry = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type);
+};
+
+export const createInputController = (getBindings: () => InputBindings, onAction: InputHandler): InputController => {
+  let onCapture: ((input: CapturedInput | null) => void) | null = null;
+  let frame = 0;
+  const wasPressed = new Map<number, boolean[]>(); // Per gamepad, for press edges
+
+  const finishCapture = (input: CapturedInput | null) => {
+    const callback = onCapture;
+    onCapture = null;
+    callback?.(input);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (onCapture) {
+      e.preventDefault();
+      finishCapture(e.code === 'Escape' ? null : { key: e.code });
+      return;
+    }
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+    const action = findActionForKey(getBindings(), e.code);
+    if (action && onAction(action)) e.preventDefault();
+  };
+
+  const pollGamepads = () => {
+    frame = requestAnimationFrame(pollGamepads);
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad) continue;
+      const previous = wasPressed.get(pad.index) ?? [];
+      const current = pad.buttons.map(b => b.pressed);
+      current.forEach((isDown, button) => {
+        if (!isDown || previous[button]) return;
+        if (onCapture) {
+          finishCapture({ button });
+          return;
+        }
+        const action = findActionForButton(getBindings(), button);
+        if (action) onAction(action);
+      });
+      wasPressed.set(pad.index, current);
+    }
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  frame = requestAnimationFrame(pollGamepads);
+
+  return {
+    capture: (callback) => {
+      onCapture = callback;
+    },
+    cancelCapture: () => {
+      onCapture = null;
+    },
+    dispose: () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      cancelAnimationFrame(frame);
+      onCapture = null;
+    }
+  };
+};
@@ -1,25 +1,78 @@
-export enum Flavor {
-  VANILLA = 'Vanilla',
-  CHOCOLATE = 'Chocolate',
-  STRAWBERRY = 'Strawberry',
-  MINT = 'Mint',
-  BLUEBERRY = 'Blueberry',
-  LEMON = 'Lemon',
-  COFFEE = 'Coffee',
-  PISTACHIO = 'Pistachio',
-  MANGO = 'Mango',
-  COOKIE_DOUGH = 'Cookie Dough'
+// Flavors are ids into the flavor registry (utils/flavorRegistry.ts), so players
+// can add their own. These are the built-in ones the code refers to by name.
+export const Flavor = {
+  VANILLA: 'Vanilla',
+  CHOCOLATE: 'Chocolate',
+  STRAWBERRY: 'Strawberry',
+  MINT: 'Mint',
+  BLUEBERRY: 'Blueberry',
+  LEMON: 'Lemon',
+  COFFEE: 'Coffee',
+  PISTACHIO: 'Pistachio',
+  MANGO: 'Mango',
+  COOKIE_DOUGH: 'Cookie Dough'
+} as const;
+export type BuiltInFlavor = typeof Flavor[keyof typeof Flavor];
+// Ids of player-made flavors. Only the registry hands these out, so a stray string
+// (or a typo in a built-in name) doesn't type-check as a flavor.
+export type FlavorId = string & { readonly __brand: 'FlavorId' };
+export type Flavor = BuiltInFlavor | FlavorId;
+
+export enum InclusionKind {
+  CHIPS = 'chips', // Chunky, angular bits (chocolate chips, cookie pieces)
+  FLECKS = 'flecks', // Streaks of fruit
+  SPECKS = 'specks' // Fine dots (vanilla bean, ground coffee)
+}
+
+// Bits mixed into the ice cream, drawn by the scoop shader
+export interface FlavorInclusions {
+  kind: InclusionKind;
+  color: string;
+  density: number; // 0 - 1, how many of the possible spots get a bit
+  size: number; // Rough width of one bit, in scene units
+}
+
+export interface FlavorDefinition {
+  id: Flavor;
+  name: string;
+  color: string;
+  lumpiness?: number; // How craggy the scooped ball is, 0 (smooth) - 0.15. Defaults to 0.06
+  inclusions?: FlavorInclusions;
+  note: number; // Frequency in Hz of the scoop sound
+  waveform: OscillatorType;
+  duration?: number; // Seconds, defaults to 0.15
+  meltRate?: number; // Multiplier on the shift's melt speed, defaults to 1
+  isCustom?: boolean;
 }
 
 export enum Topping {
   SPRINKLES = 'Sprinkles',
   CHERRY = 'Cherry',
-  NONE = 'None'
+  CHOCOLATE_SAUCE = 'Chocolate Sauce',
+  CARAMEL = 'Caramel',
+  WHIPPED_CREAM = 'Whipped Cream',
+  WAFER_STICK = 'Wafer Stick',
+  NUTS = 'Nuts'
+}
+
+export interface ToppingPlacement {
+  topping: Topping;
+  layer: number; // Index of the scoop it sits on (0 = bottom); the top scoop means "on top"
 }
 
 export enum Container {
   CONE = 'Cone',
-  CUP = 'Cup'
+  CUP = 'Cup',
+  SUGAR_CONE = 'Sugar Cone',
+  WAFFLE_BOWL = 'Waffle Bowl',
+  SUNDAE_GLASS = 'Sundae Glass',
+  BANANA_SPLIT = 'Banana Split'
+}
+
+// How scoops are arranged in a container
+export enum ContainerLayout {
+  STACK = 'stack', // Each scoop sits on the one below
+  ROW = 'row' // Side by side, left to right
 }
 
 export interface IceCreamLayer {
@@ -30,7 +83,7 @@ export interface IceCreamLayer {
 export interface Order {
   container: Container;
   layers: Flavor[]; // Bottom to Top
-  topping: Topping;
+  toppings: ToppingPlacement[]; // Empty for a plain order
 }
 
 export interface Customer {
@@ -40,6 +93,14 @@ export interface Customer {
   dialogue: string;
 }
 
+// A customer waiting in line
+export interface Ticket {
+  id: number;
+  customer: Customer;
+  patience: number; // Seconds left before they walk out
+  maxPatience: number;
+}
+
 export enum GameState {
   MENU = 'MENU',
   LOADING_ORDER = 'LOADING_ORDER',
@@ -54,4 +115,219 @@ export enum Difficulty {
   HARD = 'Hard', // 3 scoops, less time
   EXPERT = 'Expert', // 4 scoops, tight time
   MASTER = 'Master' // 5 scoops, extreme
-}
\ No newline at end of file
+}
+
+export enum GameMode {
+  CLASSIC = 'classic', // Pick a difficulty, play until out of strikes
+  CAMPAIGN = 'campaign', // One day of the shop career
+  ENDLESS = 'endless', // No closing time; the level follows how well you're doing
+  DAILY = 'daily' // The same customers for everyone playing on a given date
+}
+
+export enum CustomerSource {
+  GEMINI = 'Gemini',
+  LOCAL = 'Local',
+  SCRIPTED = 'Scripted'
+}
+
+// Things a key or gamepad button can do
+export enum InputAction {
+  FLAVOR_1 = 'flavor1',
+  FLAVOR_2 = 'flavor2',
+  FLAVOR_3 = 'flavor3',
+  FLAVOR_4 = 'flavor4',
+  FLAVOR_5 = 'flavor5',
+  FLAVOR_6 = 'flavor6',
+  FLAVOR_7 = 'flavor7',
+  FLAVOR_8 = 'flavor8',
+  FLAVOR_9 = 'flavor9',
+  FLAVOR_10 = 'flavor10',
+  PREV_FLAVOR = 'prevFlavor', // Moves the highlight, for gamepads
+  NEXT_FLAVOR = 'nextFlavor',
+  SCOOP_HIGHLIGHTED = 'scoopHighlighted',
+  CONE = 'cone',
+  CUP = 'cup',
+  NEXT_CONTAINER = 'nextContainer',
+  CYCLE_TOPPING = 'cycleTopping',
+  UNDO = 'undo',
+  REDO = 'redo',
+  TRASH = 'trash',
+  SERVE = 'serve',
+  NEXT_CUSTOMER = 'nextCustomer'
+}
+
+export interface InputBinding {
+  keys: string[]; // KeyboardEvent.code values
+  buttons: number[]; // Gamepad button indices (standard mapping)
+}
+
+export type InputBindings = Record<InputAction, InputBinding>;
+
+export interface GameSettings {
+  sfxVolume: number;
+  bgmVolume: number;
+  customerSource: CustomerSource;
+  scriptedCustomers: Customer[]; // Replayed in order by the scripted source
+  bindings: InputBindings;
+  handsOn: boolean; // Drag scoops from tubs in the 3D scene as well as using the buttons
+}
+
+// What can be ordered and built this shift
+export interface Assortment {
+  flavors: Flavor[];
+  toppings: Topping[];
+  containers: Container[];
+}
+
+export interface DifficultyRules {
+  maxScoops: number;
+  timeLimit: number; // Seconds of patience per customer
+  coinMultiplier: number;
+  strikes: number;
+  maxCustomers: number;
+  meltRate: number; // Share of a scoop that melts each second
+}
+
+// Everything the engine needs to know about how a shift plays
+export interface ShiftRules extends DifficultyRules {
+  assortment: Assortment;
+  meltRates: Partial<Record<Flavor, number>>; // Per-flavor multipliers, copied from the registry at the start
+  customerLimit?: number; // The shop closes after this many customers; open until out of strikes when unset
+  complexity?: number; // 0 - 1, how dressed up orders get with toppings and garnishes. Full when unset
+  autoScoopSeconds?: number; // Seconds between free scoops from the Auto-Scooper; none when unset
+}
+
+// What a provider is asked to produce
+export interface CustomerRequest {
+  difficulty: Difficulty;
+  scoopCount: number;
+  assortment: Assortment;
+  complexity?: number; // See ShiftRules
+}
+
+export enum UpgradeId {
+  EXTRA_TIME = 'extraTime',
+  AUTO_SCOOP = 'autoScoop',
+  UNLOCK_PISTACHIO = 'unlockPistachio',
+  UNLOCK_MANGO = 'unlockMango',
+  UNLOCK_COOKIE_DOUGH = 'unlockCookieDough',
+  UNLOCK_CHERRY = 'unlockCherry'
+}
+
+export enum ConeSkin {
+  CLASSIC = 'Classic',
+  CHOCOLATE = 'Chocolate Dipped',
+  STRAWBERRY = 'Strawberry',
+  MIDNIGHT = 'Midnight'
+}
+
+// Persistent between shifts
+export interface ShopProgress {
+  wallet: number;
+  upgrades: Partial<Record<UpgradeId, number>>; // Purchased level
+  ownedSkins: ConeSkin[];
+  selectedSkin: ConeSkin;
+}
+
+// One day of the campaign. Content carries over: a day offers everything the
+// days before it did, plus its own unlocks.
+export interface CampaignDay {
+  name: string;
+  difficulty: Difficulty; // Base rules and how big orders get
+  customers: number; // Closing time comes after this many
+  revenueTarget: number; // Coins needed to clear the day
+  unlocks: Partial<Assortment>;
+}
+
+// Persistent between sessions
+export interface CampaignProgress {
+  bestRevenue: number[]; // Best coins for each cleared day, in order; the next day to play is the next index
+}
+
+export interface DailyResult {
+  best: number; // Coins
+  plays: number;
+}
+
+// Persistent between sessions
+export interface DailyProgress {
+  results: Record<string, DailyResult>; // Keyed by local date, YYYY-MM-DD
+}
+
+// Running totals that achievements are measured against; see utils/achievementUtils.ts
+export enum AchievementCounter {
+  SERVED = 'served', // Accepted orders, all time
+  PERFECT = 'perfect',
+  PERFECT_STREAK = 'perfectStreak', // Perfect serves in a row; a miss or walk-out resets it
+  CLOSE_CALLS = 'closeCalls', // Serves with under 2 seconds of patience left
+  COINS_EARNED = 'coinsEarned',
+  BEST_SHIFT_COINS = 'bestShiftCoins',
+  MASTER_CONE_SCOOPS = 'masterConeScoops', // Most scoops on an accepted cone at Master
+  ALL_FLAVORS_SHIFTS = 'allFlavorsShifts', // Shifts where every flavor on offer got scooped
+  ENDLESS_LEVEL = 'endlessLevel' // Highest endless level reached
+}
+
+// An entry in data/achievements.json
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // Emoji
+  counter: AchievementCounter;
+  goal: number; // Unlocked once the counter reaches this
+}
+
+// Persistent between sessions
+export interface AchievementProgress {
+  counters: Partial<Record<AchievementCounter, number>>;
+  unlocked: Record<string, string>; // Achievement id -> ISO date it was unlocked
+  shiftFlavors: Flavor[]; // Scooped so far in the current shift
+}
+
+// What ended a shift; a strike-out is put down to the last strike
+export enum ShiftEnd {
+  CLOSING_TIME = 'closingTime',
+  WRONG_ORDER = 'wrongOrder',
+  WALKED_OUT = 'walkedOut'
+}
+
+// How often a flavor was asked for, and what went on instead when it was wrong
+export interface FlavorTally {
+  asked: number;
+  wrong: number; // Includes scoops left off
+  confusedWith: Partial<Record<Flavor, number>>;
+}
+
+// One finished shift in the stats history
+export interface ShiftRecord {
+  date: string; // ISO time the shift ended
+  mode: GameMode;
+  difficulty: Difficulty; // Where it ended up, for endless shifts
+  served: number; // Orders accepted
+  orders: number; // Orders handed over, accepted or not
+  walkedOut: number;
+  accuracy: number; // Average over orders handed over, 0 - 100
+  serveSeconds: number; // Average wait of the customers handed an order
+  coins: number;
+  endedBy: ShiftEnd;
+  flavors: Partial<Record<Flavor, FlavorTally>>;
+}
+
+// Persistent between sessions
+export interface StatsProgress {
+  shifts: ShiftRecord[]; // Oldest first
+}
+
+// Everything kept between sessions, as one document; see utils/saveUtils.ts
+export interface SaveGame {
+  version: number;
+  savedAt: string; // ISO date
+  highScores: Record<Difficulty, number>; // Classic shifts
+  settings: GameSettings;
+  shop: ShopProgress;
+  customFlavors: FlavorDefinition[];
+  campaign: CampaignProgress;
+  daily: DailyProgress;
+  achievements: AchievementProgress;
+  stats: StatsProgress;
+}
@@ -0,0 +1,109 @@
+import { AchievementCounter, AchievementDefinition, AchievementProgress, Container, Difficulty, Flavor } from '../types';
+import { CLOSE_CALL_SECONDS } from '../constants';
+import type { GameEvent, GameEngineState } from '../engine/gameEngine';
+import ACHIEVEMENT_DATA from '../data/achievements.json';
+
+// Achievements. The catalog lives in data/achievements.json; each entry names a
+// counter and a goal. Counters are moved along by engine events here, as pure
+// functions over AchievementProgress - App.tsx persists the result and shows toasts.
+
+export const ACHIEVEMENTS = ACHIEVEMENT_DATA as AchievementDefinition[];
+
+export const DEFAULT_ACHIEVEMENT_PROGRESS: AchievementProgress = {
+  counters: {},
+  unlocked: {},
+  shiftFlavors: []
+};
+
+export const getCounter = (progress: AchievementProgress, counter: AchievementCounter) => progress.counters[counter] ?? 0;
+
+// Share of the goal reached, 0 - 1
+export const getAchievementProgress = (progress: AchievementProgress, achievement: AchievementDefinition): number => {
+  if (progress.unlocked[achievement.id]) return 1;
+  return Math.min(1, getCounter(progress, achievement.counter) / achievement.goal);
+};
+
+type CounterChanges = Partial<Record<AchievementCounter, (value: number) => number>>;
+
+const add = (amount: number) => (value: number) => value + amount;
+const atLeast = (amount: number) => (value: number) => Math.max(value, amount);
+const reset = () => 0;
+
+// What an event does to the counters, given the state right after it
+const getChanges = (event: GameEvent, state: GameEngineState, shiftFlavors: Flavor[]): CounterChanges => {
+  switch (event.type) {
+    case 'flavorAdded': {
+      // Counted once, when the last missing flavor goes on
+      const offered = state.rules.assortment.flavors;
+      const isNew = !shiftFlavors.includes(event.flavor);
+      const isComplete = isNew && offered.every(f => f === event.flavor || shiftFlavors.includes(f));
+      return isComplete ? { [AchievementCounter.ALL_FLAVORS_SHIFTS]: add(1) } : {};
+    }
+    case 'served': {
+      const { score, ticket, reward } = event;
+      if (!score.isPassing) return { [AchievementCounter.PERFECT_STREAK]: reset };
+      // The served cone stays in the build until the result screen ends
+      const isMasterCone = state.difficulty === Difficulty.MASTER && state.build.container === Container.CONE;
+      return {
+        [AchievementCounter.SERVED]: add(1),
+        [AchievementCounter.COINS_EARNED]: add(reward),
+        [AchievementCounter.PERFECT]: add(score.isPerfect ? 1 : 0),
+        [AchievementCounter.PERFECT_STREAK]: score.isPerfect ? add(1) : reset,
+        [AchievementCounter.CLOSE_CALLS]: add(ticket.patience < CLOSE_CALL_SECONDS ? 1 : 0),
+        ...(isMasterCone ? { [AchievementCounter.MASTER_CONE_SCOOPS]: atLeast(state.build.layers.length) } : {})
+      };
+    }
+    case 'walkedOut':
+      return { [AchievementCounter.PERFECT_STREAK]: reset };
+    case 'gameOver':
+      return {
+        [AchievementCounter.BEST_SHIFT_COINS]: atLeast(event.coins),
+        ...(state.endless ? { [AchievementCounter.ENDLESS_LEVEL]: atLeast(state.endless.peak) } : {})
+      };
+    default:
+      return {};
+  }
+};
+
+// Moves the counters along for one engine event. Returns the same progress object
+// when nothing changed, plus whatever got unlocked by it.
+export const trackAchievements = (
+  progress: AchievementProgress,
+  event: GameEvent,
+  state: GameEngineState,
+  now = new Date()
+): { progress: AchievementProgress; unlocked: AchievementDefinition[] } => {
+  let next = progress;
+  if (event.type === 'shiftStarted' && progress.shiftFlavors.length > 0) {
+    next = { ...next, shiftFlavors: [] };
+  }
+
+  const changes = Object.entries(getChanges(event, state, progress.shiftFlavors)) as [AchievementCounter, (value: number) => number][];
+  const counters = { ...next.counters };
+  changes.forEach(([counter, change]) => { counters[counter] = change(counters[counter] ?? 0); });
+  if (changes.some(([counter]) => counters[counter] !== next.counters[counter])) {
+    next = { ...next, counters };
+  }
+
+  if (event.type === 'flavorAdded' && !next.shiftFlavors.includes(event.flavor)) {
+    next = { ...next, shiftFlavors: [...next.shiftFlavors, event.flavor] };
+  }
+
+  const unlocked = ACHIEVEMENTS.filter(a => !next.unlocked[a.id] && getCounter(next, a.counter) >= a.goal);
+  if (unlocked.length > 0) {
+    next = { ...next, unlocked: { ...next.unlocked, ...Object.fromEntries(unlocked.map(a => [a.id, now.toISOString()])) } };
+  }
+  return { progress: next, unlocked };
+};
+
+// Saved progress from older or hand-edited data; unknown counters are dropped
+export const parseAchievementProgress = (data: unknown): AchievementProgress => {
+  if (typeof data !== 'object' || data === null) return DEFAULT_ACHIEVEMENT_PROGRESS;
+  const { counters, unlocked, shiftFlavors } = data as Partial<AchievementProgress>;
+  const isCounter = (key: string) => (Object.values(AchievementCounter) as string[]).includes(key);
+  return {
+    counters: Object.fromEntries(Object.entries(counters ?? {}).filter(([key, value]) => isCounter(key) && typeof value === 'number')),
+    unlocked: Object.fromEntries(Object.entries(unlocked ?? {}).filter(([, date]) => typeof date === 'string')),
+    shiftFlavors: Array.isArray(shiftFlavors) ? shiftFlavors.filter(f => typeof f === 'string') : []
+  };
+};
@@ -0,0 +1,89 @@
+import { Customer } from '../types';
+import { PATIENCE_WARNING_SHARE, PATIENCE_CRITICAL_SHARE } from '../constants';
+import { createRandom, hashSeed, pick } from './random';
+
+// How a customer looks and feels, worked out from game data alone. The same
+// name and personality always make the same character.
+
+export enum HatStyle {
+  NONE = 'none',
+  CAP = 'cap',
+  TOP_HAT = 'topHat',
+  BEANIE = 'beanie',
+  PIRATE = 'pirate',
+  BERET = 'beret',
+  NIGHTCAP = 'nightcap',
+  SUN_HAT = 'sunHat'
+}
+
+export enum CustomerMood {
+  IDLE = 'idle',
+  IMPATIENT = 'impatient',
+  FURIOUS = 'furious',
+  CHEERING = 'cheering',
+  STORMING_OFF = 'stormingOff'
+}
+
+export interface AvatarLook {
+  skin: string;
+  hair: string;
+  shirt: string;
+  pants: string;
+  hat: HatStyle;
+  hatColor: string;
+  height: number; // Scale, around 1
+  width: number;
+}
+
+const SKIN_TONES = ['#FFDBAC', '#F1C27D', '#E0AC69', '#C68642', '#8D5524', '#5C3A1E'];
+const HAIR_COLORS = ['#2C1B10', '#5A3825', '#A0522D', '#E6BE8A', '#B0B0B0', '#D9534F'];
+const CLOTHES = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#6366F1', '#EC4899', '#14B8A6', '#8B5CF6'];
+const PANTS = ['#1E3A8A', '#374151', '#78350F', '#111827', '#4B5563'];
+const HAT_COLORS = ['#111827', '#B91C1C', '#1D4ED8', '#047857', '#F5F5DC'];
+
+// Personality words that pick an outfit; checked in order
+const HAT_HINTS: [RegExp, HatStyle][] = [
+  [/pirate|sailor|captain/i, HatStyle.PIRATE],
+  [/business|banker|ceo|suit|magician|drama|theat/i, HatStyle.TOP_HAT],
+  [/sleep|night|tired|yawn/i, HatStyle.NIGHTCAP],
+  [/tourist|travel|beach|vacation/i, HatStyle.SUN_HAT],
+  [/critic|chef|artist|paris|french/i, HatStyle.BERET],
+  [/cold|winter|ski|hipster/i, HatStyle.BEANIE],
+  [/kid|child|sport|skate|teen/i, HatStyle.CAP],
+];
+
+const SIZE_HINTS: [RegExp, number][] = [
+  [/tiny|small|kid|child|little/i, 0.8],
+  [/tall|giant|huge|big/i, 1.2],
+];
+
+export const getAvatarLook = ({ name, personality }: Pick<Customer, 'name' | 'personality'>): AvatarLook => {
+  const random = createRandom(hashSeed(`${name}|${personality}`));
+  const hintedHat = HAT_HINTS.find(([pattern]) => pattern.test(personality))?.[1];
+  const hintedSize = SIZE_HINTS.find(([pattern]) => pattern.test(personality))?.[1];
+  // Draw everything even when a hint wins, so hints don't reshuffle the other colors
+  const randomHat = pick(random, [HatStyle.NONE, HatStyle.NONE, HatStyle.CAP, HatStyle.BEANIE, HatStyle.SUN_HAT]);
+  const randomHeight = 0.9 + random() * 0.2;
+  const look = {
+    skin: pick(random, SKIN_TONES),
+    hair: pick(random, HAIR_COLORS),
+    shirt: pick(random, CLOTHES),
+    pants: pick(random, PANTS),
+    hatColor: pick(random, HAT_COLORS),
+    width: 0.9 + random() * 0.25,
+  };
+
+  return {
+    ...look,
+    hat: hintedHat ?? randomHat,
+    hatColor: hintedHat === HatStyle.PIRATE ? '#111827' : look.hatColor,
+    height: hintedSize ?? randomHeight,
+  };
+};
+
+// Matches the CircularTimer: amber at the warning mark, red at the critical one
+export const getWaitingMood = (patience: number, maxPatience: number): CustomerMood => {
+  if (patience <= maxPatience * PATIENCE_CRITICAL_SHARE) return CustomerMood.FURIOUS;
+  if (patience <= maxPatience * PATIENCE_WARNING_SHARE) return CustomerMood.IMPATIENT;
+  return CustomerMood.IDLE;
+};
@@ -0,0 +1,67 @@
+import { Assortment, CampaignProgress, ShiftRules, ShopProgress } from '../types';
+import { CAMPAIGN_DAYS } from '../constants';
+import { getShiftRules } from './shopUtils';
+import { getFlavorName } from './flavorRegistry';
+
+// Campaign rules. Pure functions over CampaignProgress; App.tsx persists the result.
+// Days are numbered from 0 here and shown from 1.
+
+export const DEFAULT_CAMPAIGN_PROGRESS: CampaignProgress = {
+  bestRevenue: []
+};
+
+export const isCampaignComplete = (progress: CampaignProgress) => progress.bestRevenue.length >= CAMPAIGN_DAYS.length;
+
+// The day to continue from; the last one once everything is cleared
+export const getNextDay = (progress: CampaignProgress): number => {
+  return Math.min(progress.bestRevenue.length, CAMPAIGN_DAYS.length - 1);
+};
+
+// Cleared days can be replayed; the one after them is open
+export const isDayUnlocked = (progress: CampaignProgress, day: number) => day <= progress.bestRevenue.length;
+
+// Everything on offer that day, including what earlier days unlocked
+export const getDayAssortment = (day: number): Assortment => {
+  return CAMPAIGN_DAYS.slice(0, day + 1).reduce<Assortment>((offer, { unlocks }) => ({
+    flavors: [...offer.flavors, ...(unlocks.flavors ?? [])],
+    toppings: [...offer.toppings, ...(unlocks.toppings ?? [])],
+    containers: [...offer.containers, ...(unlocks.containers ?? [])]
+  }), { flavors: [], toppings: [], containers: [] });
+};
+
+// Names of what a day adds, for "new today" lists
+export const getDayUnlockNames = (day: number): string[] => {
+  const { flavors = [], toppings = [], containers = [] } = CAMPAIGN_DAYS[day]?.unlocks ?? {};
+  return [...flavors.map(getFlavorName), ...toppings, ...containers];
+};
+
+// The day's difficulty with shop upgrades applied, limited to the day's content and customers
+export const getDayRules = (day: number, shop: ShopProgress): ShiftRules => {
+  const { difficulty, customers } = CAMPAIGN_DAYS[day];
+  return {
+    ...getShiftRules(difficulty, shop),
+    assortment: getDayAssortment(day),
+    customerLimit: customers
+  };
+};
+
+// Making it to closing time isn't enough; the till has to reach the target too
+export const isDayCleared = (day: number, coins: number, strikes: number) => {
+  return strikes > 0 && coins >= CAMPAIGN_DAYS[day].revenueTarget;
+};
+
+// Keeps the best take for a cleared day. Days can only be cleared in order.
+export const recordDay = (progress: CampaignProgress, day: number, coins: number): CampaignProgress => {
+  if (day > progress.bestRevenue.length) return progress;
+  const bestRevenue = [...progress.bestRevenue];
+  bestRevenue[day] = Math.max(bestRevenue[day] ?? 0, coins);
+  return { ...progress, bestRevenue };
+};
+
+// Saved progress from older or hand-edited data, trimmed to days that exist
+export const parseCampaignProgress = (data: unknown): CampaignProgress => {
+  const bestRevenue = (data as Partial<CampaignProgress> | null)?.bestRevenue;
+  if (!Array.isArray(bestRevenue)) return DEFAULT_CAMPAIGN_PROGRESS;
+  const valid = bestRevenue.findIndex(coins => typeof coins !== 'number');
+  return { bestRevenue: bestRevenue.slice(0, valid < 0 ? CAMPAIGN_DAYS.length : Math.min(valid, CAMPAIGN_DAYS.length)) };
+};
@@ -0,0 +1,79 @@
+import { DailyProgress, Difficulty, ShiftRules } from '../types';
+import { DIFFICULTY_SETTINGS, FULL_ASSORTMENT, DAILY_CUSTOMERS, DAILY_DIFFICULTIES } from '../constants';
+import { createRandom, hashSeed, pick } from './random';
+import { getFlavors } from './flavorRegistry';
+
+// The Daily Scoop. Everything about a day's challenge comes from its date, so
+// every player gets the same customers and the same rules - no upgrades, no
+// custom flavors, nothing from Gemini. Dates are local YYYY-MM-DD keys.
+
+export interface DailyChallenge {
+  date: string;
+  seed: number; // For the local customer generator
+  difficulty: Difficulty;
+}
+
+export const DEFAULT_DAILY_PROGRESS: DailyProgress = {
+  results: {}
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// The key `days` days after (or before) another, safe across DST changes
+export const addDays = (key: string, days: number): string => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+export const getDailyChallenge = (date: string): DailyChallenge => {
+  const seed = hashSeed(`daily|${date}`);
+  return { date, seed, difficulty: pick(createRandom(seed), DAILY_DIFFICULTIES) };
+};
+
+export const getDailyRules = ({ difficulty }: DailyChallenge): ShiftRules => ({
+  ...DIFFICULTY_SETTINGS[difficulty],
+  assortment: FULL_ASSORTMENT,
+  meltRates: Object.fromEntries(getFlavors().filter(f => !f.isCustom).map(f => [f.id, f.meltRate ?? 1])),
+  customerLimit: DAILY_CUSTOMERS
+});
+
+export const recordDailyResult = (progress: DailyProgress, date: string, coins: number): DailyProgress => {
+  const previous = progress.results[date];
+  return {
+    ...progress,
+    results: {
+      ...progress.results,
+      [date]: { best: Math.max(previous?.best ?? 0, coins), plays: (previous?.plays ?? 0) + 1 }
+    }
+  };
+};
+
+// Days played in a row up to today. Not having played yet today doesn't break it.
+export const getStreak = (progress: DailyProgress, today: string): number => {
+  let day = progress.results[today] ? today : addDays(today, -1);
+  let streak = 0;
+  while (progress.results[day]) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+};
+
+// Saved results from older or hand-edited data, keeping only well-formed days
+export const parseDailyProgress = (data: unknown): DailyProgress => {
+  const results = (data as Partial<DailyProgress> | null)?.results;
+  if (typeof results !== 'object' || results === null) return DEFAULT_DAILY_PROGRESS;
+  return {
+    results: Object.fromEntries(Object.entries(results).filter(([date, result]) => (
+      /^\d{4}-\d{2}-\d{2}$/.test(date) && typeof result?.best === 'number' && typeof result?.plays === 'number'
+    )))
+  };
+};
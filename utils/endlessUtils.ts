@@ -0,0 +1,97 @@
+import { Difficulty, ShiftRules, ShopProgress } from '../types';
+import {
+  DIFFICULTY_SETTINGS,
+  PASSING_ACCURACY,
+  ENDLESS_MAX_LEVEL,
+  ENDLESS_LEVELS_PER_SCOOP,
+  ENDLESS_WINDOW,
+  ENDLESS_CRUISING_ACCURACY,
+  ENDLESS_CRUISING_PATIENCE,
+  ENDLESS_STRUGGLING_ACCURACY
+} from '../constants';
+import { getAssortment, getExtraTime, getShiftRules } from './shopUtils';
+
+// Endless mode's difficulty tuning. Pure functions: the engine feeds in how each
+// customer went and gets back the level to play at. Levels run from 1.
+
+// How one customer went
+export interface ServeSample {
+  accuracy: number; // 0 for a walk-out
+  patienceUsed: number; // Share of their patience gone by the time they left, 0 - 1
+}
+
+export interface EndlessProgress {
+  level: number;
+  peak: number; // Highest level reached this shift
+  recent: ServeSample[]; // Since the last level change, newest last
+}
+
+// Everything a level sets about the shift
+export type EndlessLevel = Pick<ShiftRules, 'maxScoops' | 'timeLimit' | 'complexity' | 'maxCustomers' | 'coinMultiplier' | 'meltRate'>;
+
+export const getEndlessLevel = (level: number): EndlessLevel => {
+  const step = level - 1;
+  return {
+    maxScoops: Math.min(5, 1 + Math.floor(step / ENDLESS_LEVELS_PER_SCOOP)),
+    timeLimit: 30 - step,
+    complexity: (step % ENDLESS_LEVELS_PER_SCOOP) / (ENDLESS_LEVELS_PER_SCOOP - 1), // Plain orders right after each new scoop
+    maxCustomers: level < 5 ? 1 : level < 13 ? 2 : 3,
+    coinMultiplier: 1 + Math.floor(step / 2),
+    meltRate: 0.02 + step * 0.002
+  };
+};
+
+// The classic difficulty with the same scoop count, for customer requests
+export const getEndlessDifficulty = (level: number): Difficulty => {
+  return Object.values(Difficulty)[getEndlessLevel(level).maxScoops - 1];
+};
+
+export const createEndlessProgress = (): EndlessProgress => ({ level: 1, peak: 1, recent: [] });
+
+// Level 1 with the player's upgrades and unlocked content
+export const getEndlessRules = (shop: ShopProgress): ShiftRules => {
+  const level = getEndlessLevel(1);
+  return {
+    ...getShiftRules(Difficulty.EASY, shop),
+    ...level,
+    timeLimit: level.timeLimit + getExtraTime(shop),
+    assortment: getAssortment(shop),
+    strikes: DIFFICULTY_SETTINGS[Difficulty.EASY].strikes
+  };
+};
+
+// Moves a shift's rules from one level to another. Time changes by the difference
+// between the levels, so whatever the upgrades added stays.
+export const retuneRules = (rules: ShiftRules, from: number, to: number): ShiftRules => {
+  const level = getEndlessLevel(to);
+  return { ...rules, ...level, timeLimit: rules.timeLimit + level.timeLimit - getEndlessLevel(from).timeLimit };
+};
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const changeLevel = (progress: EndlessProgress, level: number): EndlessProgress => {
+  const clamped = Math.max(1, Math.min(ENDLESS_MAX_LEVEL, level));
+  return { level: clamped, peak: Math.max(progress.peak, clamped), recent: [] };
+};
+
+// Up when cruising, down after a miss or a sloppy run, otherwise keep watching
+export const recordServe = (progress: EndlessProgress, sample: ServeSample): EndlessProgress => {
+  if (sample.accuracy < PASSING_ACCURACY) return changeLevel(progress, progress.level - 1);
+  const recent = [...progress.recent, sample].slice(-ENDLESS_WINDOW);
+  if (recent.length < ENDLESS_WINDOW) return { ...progress, recent };
+
+  const accuracy = average(recent.map(s => s.accuracy));
+  const patienceUsed = average(recent.map(s => s.patienceUsed));
+  if (accuracy >= ENDLESS_CRUISING_ACCURACY && patienceUsed <= ENDLESS_CRUISING_PATIENCE) {
+    return changeLevel(progress, progress.level + 1);
+  }
+  if (accuracy < ENDLESS_STRUGGLING_ACCURACY) return changeLevel(progress, progress.level - 1);
+  return { ...progress, recent };
+};
+
+const COMPLEXITY_LABELS = ['Plain', 'Light', 'Topped', 'Loaded'];
+
+// Short name for how busy orders are, for the HUD
+export const describeComplexity = (complexity = 1) => {
+  return COMPLEXITY_LABELS[Math.round(complexity * (COMPLEXITY_LABELS.length - 1))];
+};
@@ -0,0 +1,13 @@
+// Browser helpers for saving and loading small JSON files
+
+export const downloadTextFile = (filename: string, text: string, mimeType = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Date stamp for file names, e.g. 2025-06-01
+export const fileDateStamp = (date: Date = new Date()) => date.toISOString().slice(0, 10);
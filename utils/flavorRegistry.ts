@@ -0,0 +1,90 @@
+import { Flavor, FlavorDefinition, FlavorId, InclusionKind } from '../types';
+import BUILT_IN_FLAVORS from '../data/flavors.json';
+
+// Every flavor the game knows about: the built-ins from data/flavors.json plus
+// whatever the player has made in the flavor editor. App.tsx owns persistence
+// and pushes custom flavors in with setCustomFlavors.
+
+export const WAVEFORMS: OscillatorType[] = ['sine', 'triangle', 'square', 'sawtooth'];
+
+const builtIns = BUILT_IN_FLAVORS as FlavorDefinition[];
+let customFlavors: FlavorDefinition[] = [];
+
+export const getFlavors = (): FlavorDefinition[] => [...builtIns, ...customFlavors];
+
+export const getFlavorIds = (): Flavor[] => getFlavors().map(f => f.id);
+
+export const getCustomFlavors = (): FlavorDefinition[] => customFlavors;
+
+export const setCustomFlavors = (flavors: FlavorDefinition[]) => {
+  customFlavors = flavors.map(f => ({ ...f, isCustom: true }));
+};
+
+// Runs `fn` with `flavors` standing in for the custom flavors, then puts the live ones back
+export const withCustomFlavors = <T>(flavors: FlavorDefinition[], fn: () => T): T => {
+  const live = customFlavors;
+  setCustomFlavors(flavors);
+  try {
+    return fn();
+  } finally {
+    customFlavors = live;
+  }
+};
+
+// Unknown ids (e.g. a deleted custom flavor in an old replay) still render, just plainly
+export const getFlavor = (id: Flavor): FlavorDefinition => {
+  return getFlavors().find(f => f.id === id) ?? { id, name: id, color: '#BDBDBD', note: 440, waveform: 'sine' };
+};
+
+export const getFlavorName = (id: Flavor) => getFlavor(id).name;
+
+export const getFlavorColor = (id: Flavor) => getFlavor(id).color;
+
+// Case-insensitive match on id or display name
+export const findFlavor = (text: string): FlavorDefinition | null => {
+  const key = text.trim().toLowerCase();
+  return getFlavors().find(f => f.id.toLowerCase() === key || f.name.toLowerCase() === key) ?? null;
+};
+
+// Stable id for a new custom flavor, derived from its name
+export const createFlavorId = (name: string): FlavorId => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'flavor';
+  const taken: string[] = getFlavorIds();
+  let id = `custom-${slug}`;
+  for (let n = 2; taken.includes(id); n++) id = `custom-${slug}-${n}`;
+  return id as FlavorId;
+};
+
+// A flavor id read back from storage. It may no longer resolve (a deleted custom
+// flavor), which getFlavor handles.
+export const toFlavor = (id: string): Flavor => id as Flavor;
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isInclusions = (value: unknown): boolean => (
+  isRecord(value) &&
+  Object.values(InclusionKind).includes(value.kind as InclusionKind) &&
+  isHexColor(value.color) &&
+  typeof value.density === 'number' &&
+  typeof value.size === 'number'
+);
+
+const isFlavorDefinition = (f: unknown): f is FlavorDefinition => (
+  isRecord(f) &&
+  typeof f.id === 'string' && !builtIns.some(b => b.id === f.id) &&
+  typeof f.name === 'string' && f.name.trim().length > 0 &&
+  isHexColor(f.color) &&
+  typeof f.note === 'number' && f.note > 0 &&
+  WAVEFORMS.includes(f.waveform as OscillatorType) &&
+  (f.meltRate === undefined || (typeof f.meltRate === 'number' && f.meltRate > 0)) &&
+  (f.lumpiness === undefined || typeof f.lumpiness === 'number') &&
+  (f.inclusions === undefined || isInclusions(f.inclusions))
+);
+
+// Loose check for stored custom flavors; anything malformed is dropped rather than crashing the menu
+export const parseCustomFlavors = (raw: unknown): FlavorDefinition[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isFlavorDefinition);
+};
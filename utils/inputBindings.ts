@@ -0,0 +1,122 @@
+import { InputAction, InputBinding, InputBindings } from '../types';
+
+// Which keys and gamepad buttons trigger which action. Pure data helpers;
+// services/inputController.ts does the listening.
+
+// Standard-mapping gamepad buttons
+const PAD_A = 0;
+const PAD_B = 1;
+const PAD_X = 2;
+const PAD_Y = 3;
+const PAD_LB = 4;
+const PAD_RB = 5;
+const PAD_BACK = 8;
+const PAD_START = 9;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+
+const keys = (...codes: string[]): InputBinding => ({ keys: codes, buttons: [] });
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  [InputAction.FLAVOR_1]: keys('Digit1', 'Numpad1'),
+  [InputAction.FLAVOR_2]: keys('Digit2', 'Numpad2'),
+  [InputAction.FLAVOR_3]: keys('Digit3', 'Numpad3'),
+  [InputAction.FLAVOR_4]: keys('Digit4', 'Numpad4'),
+  [InputAction.FLAVOR_5]: keys('Digit5', 'Numpad5'),
+  [InputAction.FLAVOR_6]: keys('Digit6', 'Numpad6'),
+  [InputAction.FLAVOR_7]: keys('Digit7', 'Numpad7'),
+  [InputAction.FLAVOR_8]: keys('Digit8', 'Numpad8'),
+  [InputAction.FLAVOR_9]: keys('Digit9', 'Numpad9'),
+  [InputAction.FLAVOR_10]: keys('Digit0', 'Numpad0'),
+  [InputAction.PREV_FLAVOR]: { keys: ['ArrowLeft'], buttons: [PAD_LEFT] },
+  [InputAction.NEXT_FLAVOR]: { keys: ['ArrowRight'], buttons: [PAD_RIGHT] },
+  [InputAction.SCOOP_HIGHLIGHTED]: { keys: ['ArrowUp'], buttons: [PAD_A] },
+  [InputAction.CONE]: keys('KeyC'),
+  [InputAction.CUP]: keys('KeyU'),
+  [InputAction.NEXT_CONTAINER]: { keys: ['KeyB'], buttons: [PAD_Y] },
+  [InputAction.CYCLE_TOPPING]: { keys: ['KeyT'], buttons: [PAD_X] },
+  [InputAction.UNDO]: { keys: ['KeyZ'], buttons: [PAD_LB] },
+  [InputAction.REDO]: { keys: ['KeyY'], buttons: [PAD_RB] },
+  [InputAction.TRASH]: { keys: ['Backspace'], buttons: [PAD_B] },
+  [InputAction.SERVE]: { keys: ['Enter', 'Space'], buttons: [PAD_START] },
+  [InputAction.NEXT_CUSTOMER]: { keys: ['Tab'], buttons: [PAD_BACK] },
+};
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  [InputAction.FLAVOR_1]: 'Flavor 1',
+  [InputAction.FLAVOR_2]: 'Flavor 2',
+  [InputAction.FLAVOR_3]: 'Flavor 3',
+  [InputAction.FLAVOR_4]: 'Flavor 4',
+  [InputAction.FLAVOR_5]: 'Flavor 5',
+  [InputAction.FLAVOR_6]: 'Flavor 6',
+  [InputAction.FLAVOR_7]: 'Flavor 7',
+  [InputAction.FLAVOR_8]: 'Flavor 8',
+  [InputAction.FLAVOR_9]: 'Flavor 9',
+  [InputAction.FLAVOR_10]: 'Flavor 10',
+  [InputAction.PREV_FLAVOR]: 'Highlight Previous Flavor',
+  [InputAction.NEXT_FLAVOR]: 'Highlight Next Flavor',
+  [InputAction.SCOOP_HIGHLIGHTED]: 'Scoop Highlighted Flavor',
+  [InputAction.CONE]: 'Cone',
+  [InputAction.CUP]: 'Cup',
+  [InputAction.NEXT_CONTAINER]: 'Next Base',
+  [InputAction.CYCLE_TOPPING]: 'Cycle Topping',
+  [InputAction.UNDO]: 'Undo',
+  [InputAction.REDO]: 'Redo',
+  [InputAction.TRASH]: 'Trash',
+  [InputAction.SERVE]: 'Serve',
+  [InputAction.NEXT_CUSTOMER]: 'Next Customer',
+};
+
+export const FLAVOR_ACTIONS: InputAction[] = [
+  InputAction.FLAVOR_1, InputAction.FLAVOR_2, InputAction.FLAVOR_3, InputAction.FLAVOR_4, InputAction.FLAVOR_5,
+  InputAction.FLAVOR_6, InputAction.FLAVOR_7, InputAction.FLAVOR_8, InputAction.FLAVOR_9, InputAction.FLAVOR_10
+];
+
+const BUTTON_NAMES: Record<number, string> = {
+  [PAD_A]: 'A', [PAD_B]: 'B', [PAD_X]: 'X', [PAD_Y]: 'Y', [PAD_LB]: 'LB', [PAD_RB]: 'RB',
+  6: 'LT', 7: 'RT', [PAD_BACK]: 'Back', [PAD_START]: 'Start', 10: 'L3', 11: 'R3',
+  12: 'D-Up', 13: 'D-Down', [PAD_LEFT]: 'D-Left', [PAD_RIGHT]: 'D-Right'
+};
+
+// "KeyC" -> "C", "Digit1" -> "1", "ArrowLeft" -> "←"
+export const describeKey = (code: string): string => {
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  return arrows[code] ?? code;
+};
+
+export const describeButton = (button: number): string => BUTTON_NAMES[button] ?? `Button ${button}`;
+
+export const findActionForKey = (bindings: InputBindings, code: string): InputAction | null => {
+  const entry = Object.entries(bindings).find(([, b]) => b.keys.includes(code));
+  return entry ? entry[0] as InputAction : null;
+};
+
+export const findActionForButton = (bindings: InputBindings, button: number): InputAction | null => {
+  const entry = Object.entries(bindings).find(([, b]) => b.buttons.includes(button));
+  return entry ? entry[0] as InputAction : null;
+};
+
+// Binds a key or button to an action, taking it away from whatever had it before.
+// Rebinding replaces the action's previous keys (or buttons) rather than adding to them.
+export const rebind = (bindings: InputBindings, action: InputAction, input: { key?: string; button?: number }): InputBindings => {
+  const next = {} as InputBindings;
+  (Object.keys(bindings) as InputAction[]).forEach(a => {
+    const b = bindings[a];
+    next[a] = {
+      keys: input.key !== undefined ? b.keys.filter(k => k !== input.key) : b.keys,
+      buttons: input.button !== undefined ? b.buttons.filter(x => x !== input.button) : b.buttons
+    };
+  });
+  if (input.key !== undefined) next[action] = { ...next[action], keys: [input.key] };
+  if (input.button !== undefined) next[action] = { ...next[action], buttons: [input.button] };
+  return next;
+};
+
+// Saved bindings may predate newer actions; fill those in with defaults
+export const mergeBindings = (saved: Partial<InputBindings> | undefined): InputBindings => ({
+  ...DEFAULT_BINDINGS,
+  ...saved
+});
@@ -0,0 +1,73 @@
+import { Order, Topping, ToppingPlacement, Container, ContainerLayout } from '../types';
+import { CONTAINERS, LAYERABLE_TOPPINGS } from '../constants';
+
+// Small helpers for reading where toppings sit on an order
+
+export const getTopLayer = (order: Order) => order.layers.length - 1;
+
+// Toppings on the highest scoop
+export const getTopToppings = (order: Order): Topping[] => {
+  const top = getTopLayer(order);
+  return order.toppings.filter(p => p.layer === top).map(p => p.topping);
+};
+
+// Toppings sandwiched between scoops, bottom to top
+export const getGarnishes = (order: Order): ToppingPlacement[] => {
+  const top = getTopLayer(order);
+  return order.toppings.filter(p => p.layer !== top).sort((a, b) => a.layer - b.layer);
+};
+
+export const getToppingsOnLayer = (order: Order, layer: number): Topping[] => {
+  return order.toppings.filter(p => p.layer === layer).map(p => p.topping);
+};
+
+// Whether a scoop wearing this topping can have another scoop put on it.
+// Side-by-side scoops never sit on each other, so anything goes there.
+export const canStackOn = (container: Container, topping: Topping): boolean => {
+  return CONTAINERS[container].layout === ContainerLayout.ROW || LAYERABLE_TOPPINGS.includes(topping);
+};
+
+// The order with one scoop taken out. Its toppings go with it and everything above shifts down.
+export const removeScoop = (order: Order, index: number): Order => ({
+  ...order,
+  layers: order.layers.filter((_, i) => i !== index),
+  toppings: order.toppings
+    .filter(p => p.layer !== index)
+    .map(p => p.layer > index ? { ...p, layer: p.layer - 1 } : p)
+});
+
+// The order with a scoop moved to another slot. Garnishes travel with their scoop,
+// but in a stack whatever is on top stays on top - a cherry never ends up buried.
+export const moveScoop = (order: Order, from: number, to: number): Order => {
+  const top = getTopLayer(order);
+  const isStack = CONTAINERS[order.container].layout === ContainerLayout.STACK;
+  const indices = order.layers.map((_, i) => i); // New slot -> old slot
+  const [moved] = indices.splice(from, 1);
+  indices.splice(to, 0, moved);
+
+  const toppings: ToppingPlacement[] = [];
+  order.toppings.forEach(p => {
+    const layer = isStack && p.layer === top ? top : indices.indexOf(p.layer);
+    if (!toppings.some(t => t.topping === p.topping && t.layer === layer)) toppings.push({ topping: p.topping, layer });
+  });
+  return { ...order, layers: indices.map(i => order.layers[i]), toppings };
+};
+
+// Most toppings a generated order asks for on top, scaled down for simpler orders
+export const getTopToppingLimit = (complexity = 1) => Math.round(2 * complexity);
+
+// The containers big enough for an order of this many scoops
+export const getContainersFor = (containers: Container[], scoopCount: number): Container[] => {
+  return containers.filter(c => CONTAINERS[c].capacity >= scoopCount);
+};
+
+// Most scoops any of these containers can hold
+export const getLargestCapacity = (containers: Container[]): number => {
+  return Math.max(0, ...containers.map(c => CONTAINERS[c].capacity));
+};
+
+// Identity of a placement for comparisons. "On top" is relative, so it is keyed
+// as such rather than by index - a right topping on a short stack is still on top.
+export const placementKey = (order: Order, placement: ToppingPlacement): string => {
+  return `${placement.topping}@${placement.layer === getTopLayer(order) ? 'top' : placement.layer}`;
+};
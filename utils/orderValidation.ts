@@ -0,0 +1,177 @@
+import { Customer, Order, Flavor, Topping, Container, Assortment, ToppingPlacement } from '../types';
+import { CONTAINERS } from '../constants';
+import { canStackOn } from './orderUtils';
+import { findFlavor, getFlavorIds } from './flavorRegistry';
+
+// Runtime checks for customers coming from outside the type system
+// (Gemini responses, script files). Cosmetic problems are repaired,
+// anything that would make the order impossible is rejected.
+
+export const MAX_DIALOGUE_LENGTH = 160;
+const MAX_NAME_LENGTH = 32;
+
+export interface CustomerValidation {
+  customer: Customer | null; // null when rejected
+  issues: string[]; // Everything that was wrong, repaired or not
+  isRepaired: boolean;
+}
+
+// Case- and whitespace-insensitive lookup, so "mint " still means Flavor.MINT
+const matchEnum = <T extends string>(values: T[], raw: unknown): T | null => {
+  if (typeof raw !== 'string') return null;
+  const needle = raw.trim().toLowerCase();
+  return values.find(v => v.toLowerCase() === needle) ?? null;
+};
+
+const cleanText = (raw: unknown, maxLength: number): string => {
+  if (typeof raw !== 'string') return '';
+  const text = raw.replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Toppings are never worth rejecting a customer over: bad ones are dropped,
+// misplaced ones are moved to the top.
+const repairToppings = (
+  rawOrder: Record<string, unknown>,
+  container: Container,
+  layerCount: number,
+  allowed: Topping[],
+  issues: string[]
+): ToppingPlacement[] => {
+  const top = layerCount - 1;
+  let rawToppings: unknown[] = [];
+  if (Array.isArray(rawOrder.toppings)) {
+    rawToppings = rawOrder.toppings;
+  } else if (typeof rawOrder.topping === 'string') {
+    // Older single-topping format, where "None" meant plain
+    rawToppings = rawOrder.topping.trim().toLowerCase() === 'none' ? [] : [rawOrder.topping];
+  } else if (rawOrder.toppings !== undefined) {
+    issues.push('Toppings is not a list');
+  }
+
+  const placements: ToppingPlacement[] = [];
+  rawToppings.forEach(raw => {
+    // A bare name means "on top"
+    const entry = isRecord(raw) ? raw : { topping: raw, layer: top };
+    const topping = matchEnum(allowed, entry.topping);
+    if (!topping) {
+      issues.push(`Unknown topping "${String(entry.topping)}"`);
+      return;
+    }
+
+    let layer = typeof entry.layer === 'number' && Number.isInteger(entry.layer) ? entry.layer : top;
+    if (layer < 0 || layer > top) {
+      issues.push(`${topping} placed on missing scoop ${layer + 1}`);
+      layer = top;
+    }
+    if (layer !== top && !canStackOn(container, topping)) {
+      issues.push(`${topping} can only go on top`);
+      layer = top;
+    }
+    if (placements.some(p => p.topping === topping && p.layer === layer)) {
+      issues.push(`Duplicate ${topping}`);
+      return;
+    }
+    placements.push({ topping, layer });
+  });
+  return placements;
+};
+
+export interface ValidationRules {
+  scoopCount?: number; // Exact number of layers; extra ones are trimmed
+  assortment?: Assortment; // Only these may be ordered
+}
+
+/**
+ * Validates an untrusted customer against the enums and, optionally,
+ * the scoop count and assortment of the current shift.
+ */
+export const validateCustomer = (raw: unknown, rules: ValidationRules = {}): CustomerValidation => {
+  const { scoopCount, assortment } = rules;
+  const issues: string[] = [];
+  let isRejected = false;
+  const reject = (issue: string) => {
+    issues.push(issue);
+    isRejected = true;
+  };
+
+  if (!isRecord(raw)) {
+    return { customer: null, issues: ['Customer is not an object'], isRepaired: false };
+  }
+
+  let name = cleanText(raw.name, MAX_NAME_LENGTH);
+  if (!name) {
+    issues.push('Missing name');
+    name = 'Mystery Guest';
+  }
+
+  let personality = cleanText(raw.personality, MAX_DIALOGUE_LENGTH);
+  if (!personality) {
+    issues.push('Missing personality');
+    personality = 'Hard to read.';
+  }
+
+  let dialogue = cleanText(raw.dialogue, MAX_DIALOGUE_LENGTH);
+  if (typeof raw.dialogue === 'string' && raw.dialogue.trim().length > MAX_DIALOGUE_LENGTH) {
+    issues.push('Dialogue too long');
+  }
+  if (!dialogue) {
+    issues.push('Missing dialogue');
+    dialogue = 'One ice cream, please!';
+  }
+
+  const rawOrder = raw.order;
+  if (!isRecord(rawOrder)) {
+    reject('Missing order');
+    return { customer: null, issues, isRepaired: false };
+  }
+
+  const container = matchEnum(assortment?.containers ?? Object.values(Container), rawOrder.container);
+  if (!container) reject(`Unknown container "${String(rawOrder.container)}"`);
+
+  let layers: Flavor[] = [];
+  if (!Array.isArray(rawOrder.layers)) {
+    reject('Layers is not a list');
+  } else {
+    rawOrder.layers.forEach((l, i) => {
+      // Flavors can be given by id or display name
+      const found = typeof l === 'string' ? findFlavor(l) : null;
+      const flavor = found && (assortment?.flavors ?? getFlavorIds()).includes(found.id) ? found.id : null;
+      if (flavor) {
+        layers.push(flavor);
+      } else {
+        reject(`Unknown flavor "${String(l)}" at layer ${i + 1}`);
+      }
+    });
+
+    if (layers.length === 0) {
+      reject('Order has no scoops');
+    } else if (scoopCount !== undefined && layers.length > scoopCount) {
+      issues.push(`Expected ${scoopCount} scoop(s), got ${layers.length}`);
+      layers = layers.slice(0, scoopCount);
+    } else if (scoopCount !== undefined && layers.length < scoopCount) {
+      reject(`Expected ${scoopCount} scoop(s), got ${layers.length}`);
+    }
+  }
+
+  if (container && layers.length > CONTAINERS[container].capacity) {
+    // Trimming would change the order, so it can't be served at all
+    reject(`${container} only holds ${CONTAINERS[container].capacity} scoop(s), got ${layers.length}`);
+  }
+
+  if (isRejected || !container) {
+    return { customer: null, issues, isRepaired: false };
+  }
+
+  const toppings = repairToppings(rawOrder, container, layers.length, assortment?.toppings ?? Object.values(Topping), issues);
+  const order: Order = { container, layers, toppings };
+  return {
+    customer: { name, personality, dialogue, order },
+    issues,
+    isRepaired: issues.length > 0
+  };
+};
@@ -0,0 +1,35 @@
+// Small seeded PRNG (mulberry32) so procedural content is reproducible.
+// Same seed in, same sequence out - on every browser.
+
+export type RandomFn = () => number;
+
+export const createRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Turns any string (a date, a name...) into a 32-bit seed
+export const hashSeed = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+export const pick = <T>(random: RandomFn, items: readonly T[]): T => {
+  return items[Math.floor(random() * items.length)];
+};
+
+export const randomInt = (random: RandomFn, min: number, max: number): number => {
+  return min + Math.floor(random() * (max - min + 1));
+};
@@ -0,0 +1,192 @@
+import { Customer, CustomerSource, Difficulty, FlavorDefinition, GameSettings, InputAction, InputBinding, InputBindings, SaveGame } from '../types';
+import { DEFAULT_BINDINGS, mergeBindings } from './inputBindings';
+import { parseCustomFlavors, withCustomFlavors } from './flavorRegistry';
+import { validateCustomer } from './orderValidation';
+import { DEFAULT_SHOP_PROGRESS, parseShopProgress } from './shopUtils';
+import { DEFAULT_CAMPAIGN_PROGRESS, parseCampaignProgress } from './campaignUtils';
+import { DEFAULT_DAILY_PROGRESS, parseDailyProgress } from './dailyUtils';
+import { DEFAULT_ACHIEVEMENT_PROGRESS, parseAchievementProgress } from './achievementUtils';
+import { DEFAULT_STATS_PROGRESS, parseStatsProgress } from './statsUtils';
+
+// The save. Everything a player keeps is one versioned document under SAVE_KEY.
+// Loading runs it through MIGRATIONS up to SAVE_VERSION, then checks every part
+// and swaps anything malformed for its default.
+
+export const SAVE_VERSION = 1;
+const SAVE_KEY = 'scoops_save';
+const UNREADABLE_KEY = 'scoops_save_unreadable'; // The last save that failed to load, kept for rescue
+
+type SavePart = Exclude<keyof SaveGame, 'version' | 'savedAt'>;
+type RawSave = Record<string, unknown>;
+
+// Before version 1 every part had its own key. They're left in place after migrating.
+const LEGACY_KEYS: Record<SavePart, string> = {
+  highScores: 'scoops_high_scores_v1',
+  settings: 'scoops_settings_v1',
+  shop: 'scoops_shop_v1',
+  customFlavors: 'scoops_flavors_v1',
+  campaign: 'scoops_campaign_v1',
+  daily: 'scoops_daily_v1',
+  achievements: 'scoops_achievements_v1',
+  stats: 'scoops_stats_v1'
+};
+
+// MIGRATIONS[n] takes a version n save to version n + 1
+const MIGRATIONS: ((save: RawSave) => RawSave)[] = [
+  // 0: the old per-key values gathered into one object by readLegacySave. The parts
+  // already have their version 1 shape; anything partial is filled in by validateSave.
+  save => ({ ...save, version: 1 })
+];
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  sfxVolume: 0.5,
+  bgmVolume: 0.3,
+  customerSource: CustomerSource.GEMINI,
+  scriptedCustomers: [],
+  bindings: DEFAULT_BINDINGS,
+  handsOn: false
+};
+
+const isRecord = (value: unknown): value is RawSave => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseHighScores = (data: unknown): Record<Difficulty, number> => {
+  const saved = isRecord(data) ? data : {};
+  return Object.fromEntries(Object.values(Difficulty).map(d => {
+    const score = saved[d];
+    return [d, typeof score === 'number' && score > 0 ? Math.floor(score) : 0];
+  })) as Record<Difficulty, number>;
+};
+
+export const createDefaultSave = (): SaveGame => ({
+  version: SAVE_VERSION,
+  savedAt: new Date().toISOString(),
+  highScores: parseHighScores(null),
+  settings: DEFAULT_SETTINGS,
+  shop: DEFAULT_SHOP_PROGRESS,
+  customFlavors: [],
+  campaign: DEFAULT_CAMPAIGN_PROGRESS,
+  daily: DEFAULT_DAILY_PROGRESS,
+  achievements: DEFAULT_ACHIEVEMENT_PROGRESS,
+  stats: DEFAULT_STATS_PROGRESS
+});
+
+const isBinding = (value: unknown): value is InputBinding => (
+  isRecord(value)
+  && Array.isArray(value.keys) && value.keys.every(key => typeof key === 'string')
+  && Array.isArray(value.buttons) && value.buttons.every(button => typeof button === 'number')
+);
+
+// Malformed bindings go back to their defaults; the rest are kept
+const parseBindings = (data: unknown): InputBindings => {
+  const saved = isRecord(data) ? data : {};
+  return mergeBindings(Object.fromEntries(
+    Object.values(InputAction).filter(action => isBinding(saved[action])).map(action => [action, saved[action]])
+  ) as Partial<InputBindings>);
+};
+
+const parseVolume = (value: unknown, fallback: number) => typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+// Scripted customers go through the same checks as a loaded script. They may order
+// the save's own custom flavors, so those stand in for the live ones meanwhile.
+const parseScriptedCustomers = (data: unknown, customFlavors: FlavorDefinition[]): Customer[] => {
+  if (!Array.isArray(data)) return [];
+  return withCustomFlavors(customFlavors, () => (
+    data.map(raw => validateCustomer(raw).customer).filter((c): c is Customer => c !== null)
+  ));
+};
+
+export const parseSettings = (data: unknown, customFlavors: FlavorDefinition[] = []): GameSettings => {
+  if (!isRecord(data)) return DEFAULT_SETTINGS;
+  const { sfxVolume, bgmVolume, customerSource, scriptedCustomers, bindings, handsOn } = data as Partial<Record<keyof GameSettings, unknown>>;
+  return {
+    sfxVolume: parseVolume(sfxVolume, DEFAULT_SETTINGS.sfxVolume),
+    bgmVolume: parseVolume(bgmVolume, DEFAULT_SETTINGS.bgmVolume),
+    customerSource: Object.values(CustomerSource).find(source => source === customerSource) ?? DEFAULT_SETTINGS.customerSource,
+    scriptedCustomers: parseScriptedCustomers(scriptedCustomers, customFlavors),
+    bindings: parseBindings(bindings),
+    handsOn: typeof handsOn === 'boolean' ? handsOn : DEFAULT_SETTINGS.handsOn
+  };
+};
+
+// Each part is checked on its own, so one bad part doesn't cost the rest
+const validateSave = (save: RawSave): SaveGame => {
+  const customFlavors = parseCustomFlavors(save.customFlavors);
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof save.savedAt === 'string' ? save.savedAt : new Date().toISOString(),
+    highScores: parseHighScores(save.highScores),
+    settings: parseSettings(save.settings, customFlavors),
+    shop: parseShopProgress(save.shop),
+    customFlavors,
+    campaign: parseCampaignProgress(save.campaign),
+    daily: parseDailyProgress(save.daily),
+    achievements: parseAchievementProgress(save.achievements),
+    stats: parseStatsProgress(save.stats)
+  };
+};
+
+const migrateSave = (save: RawSave): RawSave => {
+  let migrated = save;
+  for (let version = save.version as number; version < SAVE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return migrated;
+};
+
+export const serializeSave = (save: SaveGame): string => JSON.stringify(save, null, 2);
+
+/**
+ * Reads a save document, e.g. an exported file. Throws when it isn't a save this
+ * version of the game can read; otherwise migrates it and repairs what it can.
+ */
+export const parseSave = (text: string): SaveGame => {
+  const parsed = JSON.parse(text);
+  if (!isRecord(parsed)) {
+    throw new Error('Save must be a JSON object');
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error('Not a Scoops & Smiles save (no version)');
+  }
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save is from a newer version of the game (${version}, expected up to ${SAVE_VERSION})`);
+  }
+  return validateSave(migrateSave(parsed));
+};
+
+// The old separate keys as a version 0 save; unreadable ones are left out
+const readLegacySave = (storage: Storage): RawSave => {
+  const save: RawSave = { version: 0 };
+  (Object.entries(LEGACY_KEYS) as [SavePart, string][]).forEach(([part, key]) => {
+    const text = storage.getItem(key);
+    if (text === null) return;
+    try {
+      save[part] = JSON.parse(text);
+    } catch (e) {
+      console.error(`Failed to parse ${key}`, e);
+    }
+  });
+  return save;
+};
+
+export const storeSave = (save: SaveGame, storage: Storage = localStorage) => {
+  storage.setItem(SAVE_KEY, JSON.stringify(save));
+};
+
+// The save in storage, migrated from the old keys the first time. A save that
+// can't be read is set aside under UNREADABLE_KEY and play starts from defaults.
+export const loadSave = (storage: Storage = localStorage): SaveGame => {
+  const text = storage.getItem(SAVE_KEY);
+  if (text === null) {
+    const save = validateSave(migrateSave(readLegacySave(storage)));
+    storeSave(save, storage);
+    return save;
+  }
+  try {
+    return parseSave(text);
+  } catch (e) {
+    console.error("Failed to parse save", e);
+    storage.setItem(UNREADABLE_KEY, text);
+    return createDefaultSave();
+  }
+};
@@ -0,0 +1,162 @@
+import { useEffect, useMemo } from 'react';
+import { Color, MeshStandardMaterial, SphereGeometry } from 'three';
+import { Flavor, FlavorDefinition, InclusionKind } from '../types';
+import { getFlavor } from './flavorRegistry';
+
+// Procedural ice cream surface. Every scoop uses the same geometry and the same
+// shader program; flavors only differ in uniforms, so adding flavors (or scoops)
+// doesn't add shader compiles or extra meshes for chips and specks.
+//  - Vertex: pushes the sphere out into a lumpy scooped ball with a lip where the
+//    scoop left it, and rebuilds the normals to match.
+//  - Fragment: scatters inclusions through the ball on a jittered 3D grid.
+
+export const SCOOP_RADIUS = 0.9;
+
+// Dense enough for the lumps to read; shared by every scoop on screen
+export const SCOOP_GEOMETRY = new SphereGeometry(SCOOP_RADIUS, 64, 48);
+
+const DEFAULT_LUMPINESS = 0.06;
+
+const INCLUSION_CODES: Record<InclusionKind, number> = {
+  [InclusionKind.CHIPS]: 1,
+  [InclusionKind.FLECKS]: 2,
+  [InclusionKind.SPECKS]: 3,
+};
+
+const NOISE_GLSL = /* glsl */ `
+  float scoopHash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+  }
+
+  vec3 scoopHash3(vec3 p) {
+    return vec3(scoopHash(p), scoopHash(p + 17.1), scoopHash(p + 31.7));
+  }
+
+  float scoopNoise(vec3 x) {
+    vec3 i = floor(x);
+    vec3 f = fract(x);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(mix(scoopHash(i), scoopHash(i + vec3(1, 0, 0)), f.x), mix(scoopHash(i + vec3(0, 1, 0)), scoopHash(i + vec3(1, 1, 0)), f.x), f.y),
+      mix(mix(scoopHash(i + vec3(0, 0, 1)), scoopHash(i + vec3(1, 0, 1)), f.x), mix(scoopHash(i + vec3(0, 1, 1)), scoopHash(i + vec3(1, 1, 1)), f.x), f.y),
+      f.z
+    );
+  }
+`;
+
+const VERTEX_PARS = /* glsl */ `
+  uniform float uLumpiness;
+  uniform float uSeed;
+  varying vec3 vScoopDir;
+  ${NOISE_GLSL}
+
+  // Radial offset (as a share of the radius) for a point on the unit sphere
+  float scoopShape(vec3 d) {
+    vec3 p = d * 1.5 + uSeed;
+    float lumps = scoopNoise(p * 2.0) * 0.65 + scoopNoise(p * 5.0) * 0.35 - 0.5;
+    float lipY = (d.y + 0.35) * 9.0;
+    float lip = exp(-lipY * lipY) * (0.6 + 0.4 * scoopNoise(p * 4.0));
+    return uLumpiness * (lumps * 2.0 + lip);
+  }
+
+  vec3 scoopSurface(vec3 d) {
+    d = normalize(d);
+    return d * (1.0 + scoopShape(d));
+  }
+`;
+
+// Replaces beginnormal_vertex: the normal of the displaced surface, from two nearby points
+const VERTEX_NORMAL = /* glsl */ `
+  vec3 scoopDir = normalize(position);
+  vec3 scoopTangent = normalize(cross(scoopDir, abs(scoopDir.y) < 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0)));
+  vec3 scoopBitangent = cross(scoopDir, scoopTangent);
+  vec3 scoopPoint = scoopSurface(scoopDir);
+  vec3 objectNormal = normalize(cross(
+    scoopSurface(scoopDir + scoopTangent * 0.01) - scoopPoint,
+    scoopSurface(scoopDir + scoopBitangent * 0.01) - scoopPoint
+  ));
+  if (dot(objectNormal, scoopDir) < 0.0) objectNormal = -objectNormal;
+  vScoopDir = scoopDir;
+`;
+
+const FRAGMENT_PARS = /* glsl */ `
+  uniform int uInclusionKind;
+  uniform vec3 uInclusionColor;
+  uniform float uInclusionDensity;
+  uniform float uInclusionSize;
+  uniform float uSeed;
+  varying vec3 vScoopDir;
+  ${NOISE_GLSL}
+
+  // How much of this spot is covered by an inclusion. Bits are smaller than half a
+  // cell, so only the 2x2x2 cells nearest the point can reach it.
+  float scoopInclusions(vec3 d) {
+    vec3 p = d * ${SCOOP_RADIUS.toFixed(2)} / (uInclusionSize * 2.5) + uSeed;
+    vec3 base = floor(p) + step(0.5, fract(p)) - 1.0;
+    float coverage = 0.0;
+    for (int x = 0; x < 2; x++) {
+      for (int y = 0; y < 2; y++) {
+        for (int z = 0; z < 2; z++) {
+          vec3 cell = base + vec3(x, y, z);
+          if (scoopHash(cell + 7.3) > uInclusionDensity) continue;
+          vec3 offset = p - (cell + 0.2 + scoopHash3(cell) * 0.6);
+          float dist;
+          if (uInclusionKind == 1) {
+            vec3 a = abs(offset);
+            dist = max(max(a.x, a.y * 1.3), a.z) * (0.85 + 0.3 * scoopHash(cell + 3.1));
+          } else if (uInclusionKind == 2) {
+            vec3 axis = normalize(scoopHash3(cell + 5.9) - 0.5);
+            dist = length(offset - axis * dot(offset, axis) * 0.7);
+          } else {
+            dist = length(offset) * 1.4;
+          }
+          coverage = max(coverage, 1.0 - smoothstep(0.18, 0.24, dist));
+        }
+      }
+    }
+    return coverage;
+  }
+`;
+
+const FRAGMENT_COLOR = /* glsl */ `
+  #include <color_fragment>
+  if (uInclusionKind > 0) {
+    diffuseColor.rgb = mix(diffuseColor.rgb, uInclusionColor, scoopInclusions(normalize(vScoopDir)));
+  }
+`;
+
+// One material per scoop (melting and hover tweak it), all sharing the compiled program
+export const createScoopMaterial = (flavor: FlavorDefinition, seed = 0): MeshStandardMaterial => {
+  const material = new MeshStandardMaterial({ color: flavor.color, roughness: 0.8, metalness: 0.1 });
+  const { inclusions } = flavor;
+  const uniforms = {
+    uLumpiness: { value: flavor.lumpiness ?? DEFAULT_LUMPINESS },
+    uSeed: { value: seed },
+    uInclusionKind: { value: inclusions ? INCLUSION_CODES[inclusions.kind] ?? 0 : 0 },
+    uInclusionColor: { value: new Color(inclusions?.color ?? '#000000') },
+    uInclusionDensity: { value: inclusions?.density ?? 0 },
+    uInclusionSize: { value: Math.max(0.01, inclusions?.size ?? 0.05) },
+  };
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_PARS}`)
+      .replace('#include <beginnormal_vertex>', VERTEX_NORMAL)
+      .replace('#include <begin_vertex>', 'vec3 transformed = scoopPoint * length(position);');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${FRAGMENT_PARS}`)
+      .replace('#include <color_fragment>', FRAGMENT_COLOR);
+  };
+  material.customProgramCacheKey = () => 'scoop';
+  return material;
+};
+
+// A scoop material for a flavor, freed when the scoop goes away
+export const useScoopMaterial = (flavor: Flavor, seed = 0): MeshStandardMaterial => {
+  const material = useMemo(() => createScoopMaterial(getFlavor(flavor), seed), [flavor, seed]);
+  useEffect(() => () => material.dispose(), [material]);
+  return material;
+};
@@ -0,0 +1,107 @@
+import { Order, Flavor } from '../types';
+import { SCORING_WEIGHTS, PASSING_ACCURACY, MELT_TIP_PENALTY, NOTICEABLE_MELT } from '../constants';
+import { placementKey } from './orderUtils';
+
+// Pure order scoring: compares what the customer asked for with what was built.
+// No React, no audio - just data in, breakdown out.
+
+export interface LayerResult {
+  index: number; // 0 = bottom
+  expected: Flavor | null; // null when the scoop is extra
+  actual: Flavor | null; // null when the scoop is missing
+  isMatch: boolean;
+}
+
+export interface OrderScore {
+  isContainerMatch: boolean;
+  isToppingMatch: boolean; // Every topping right and in the right place
+  missingToppings: number;
+  extraToppings: number; // Includes ones in the wrong place
+  layers: LayerResult[];
+  missingScoops: number;
+  extraScoops: number;
+  accuracy: number; // 0 - 100
+  melt: number; // Average melt when served, 0 - 1. Costs tip, not accuracy
+  isPerfect: boolean;
+  isPassing: boolean;
+}
+
+export const scoreOrder = (target: Order, built: Order, melt = 0): OrderScore => {
+  const isContainerMatch = target.container === built.container;
+
+  const targetToppings = target.toppings.map(p => placementKey(target, p));
+  const builtToppings = built.toppings.map(p => placementKey(built, p));
+  const remaining = [...targetToppings];
+  let matchedToppings = 0;
+  builtToppings.forEach(key => {
+    const i = remaining.indexOf(key);
+    if (i >= 0) {
+      remaining.splice(i, 1);
+      matchedToppings++;
+    }
+  });
+  const missingToppings = targetToppings.length - matchedToppings;
+  const extraToppings = builtToppings.length - matchedToppings;
+  const isToppingMatch = missingToppings === 0 && extraToppings === 0;
+  // Share of everything involved that was right; a plain order served plain is full marks
+  const toppingSlots = matchedToppings + missingToppings + extraToppings;
+  const toppingPoints = toppingSlots === 0 ? SCORING_WEIGHTS.toppings : (matchedToppings / toppingSlots) * SCORING_WEIGHTS.toppings;
+
+  const slotCount = Math.max(target.layers.length, built.layers.length);
+  const layers: LayerResult[] = [];
+  for (let i = 0; i < slotCount; i++) {
+    const expected = target.layers[i] ?? null;
+    const actual = built.layers[i] ?? null;
+    layers.push({ index: i, expected, actual, isMatch: expected !== null && expected === actual });
+  }
+
+  const missingScoops = Math.max(0, target.layers.length - built.layers.length);
+  const extraScoops = Math.max(0, built.layers.length - target.layers.length);
+
+  // Layer points are spread over every slot, so extra scoops dilute the score
+  // just as much as missing ones.
+  const matchedLayers = layers.filter(l => l.isMatch).length;
+  const layerPoints = slotCount === 0 ? SCORING_WEIGHTS.layers : (matchedLayers / slotCount) * SCORING_WEIGHTS.layers;
+
+  const accuracy = Math.round(
+    (isContainerMatch ? SCORING_WEIGHTS.container : 0) +
+    toppingPoints +
+    layerPoints
+  );
+
+  return {
+    isContainerMatch,
+    isToppingMatch,
+    missingToppings,
+    extraToppings,
+    layers,
+    missingScoops,
+    extraScoops,
+    accuracy,
+    melt,
+    isPerfect: accuracy === 100,
+    isPassing: accuracy >= PASSING_ACCURACY,
+  };
+};
+
+// Coins earned for a scored order. Failing orders earn nothing; melted ones earn less.
+export const calculateReward = (score: OrderScore, coinMultiplier: number): number => {
+  if (!score.isPassing) return 0;
+  return Math.round(10 * coinMultiplier * (score.accuracy / 100) * (1 - score.melt * MELT_TIP_PENALTY));
+};
+
+export const isNoticeablyMelted = (score: OrderScore) => score.melt >= NOTICEABLE_MELT;
+
+// Short player-facing explanation of what went wrong.
+export const describeMistakes = (score: OrderScore): string[] => {
+  const mistakes: string[] = [];
+  if (!score.isContainerMatch) mistakes.push('Wrong base');
+  if (score.missingToppings > 0) mistakes.push(`${score.missingToppings} topping(s) missing`);
+  if (score.extraToppings > 0) mistakes.push(`${score.extraToppings} topping(s) wrong or misplaced`);
+  if (score.missingScoops > 0) mistakes.push(`${score.missingScoops} scoop(s) missing`);
+  if (score.extraScoops > 0) mistakes.push(`${score.extraScoops} extra scoop(s)`);
+  const wrongFlavors = score.layers.filter(l => l.expected !== null && l.actual !== null && !l.isMatch).length;
+  if (wrongFlavors > 0) mistakes.push(`${wrongFlavors} wrong flavor(s)`);
+  if (isNoticeablyMelted(score)) mistakes.push(`Melted ${Math.round(score.melt * 100)}%`);
+  return mistakes;
+};
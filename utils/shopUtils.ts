@@ -0,0 +1,109 @@
+import { Difficulty, Flavor, Topping, Container, Assortment, ShiftRules, ShopProgress, UpgradeId, ConeSkin } from '../types';
+import {
+  DIFFICULTY_SETTINGS,
+  UPGRADES,
+  UpgradeDefinition,
+  LOCKED_FLAVORS,
+  LOCKED_TOPPINGS,
+  EXTRA_TIME_PER_LEVEL,
+  AUTO_SCOOP_SECONDS,
+  CONE_SKINS
+} from '../constants';
+import { getFlavorIds, getFlavors } from './flavorRegistry';
+
+// Wallet and upgrade rules. Pure functions over ShopProgress; App.tsx persists the result.
+
+export const DEFAULT_SHOP_PROGRESS: ShopProgress = {
+  wallet: 0,
+  upgrades: {},
+  ownedSkins: [ConeSkin.CLASSIC],
+  selectedSkin: ConeSkin.CLASSIC
+};
+
+export const getUpgradeLevel = (progress: ShopProgress, id: UpgradeId): number => progress.upgrades[id] ?? 0;
+
+// Cost of the next level, or null when maxed out
+export const getNextUpgradeCost = (progress: ShopProgress, upgrade: UpgradeDefinition): number | null => {
+  return upgrade.costs[getUpgradeLevel(progress, upgrade.id)] ?? null;
+};
+
+export const buyUpgrade = (progress: ShopProgress, id: UpgradeId): ShopProgress => {
+  const upgrade = UPGRADES.find(u => u.id === id);
+  const cost = upgrade ? getNextUpgradeCost(progress, upgrade) : null;
+  if (cost === null || progress.wallet < cost) return progress;
+  return {
+    ...progress,
+    wallet: progress.wallet - cost,
+    upgrades: { ...progress.upgrades, [id]: getUpgradeLevel(progress, id) + 1 }
+  };
+};
+
+export const buySkin = (progress: ShopProgress, skin: ConeSkin): ShopProgress => {
+  if (progress.ownedSkins.includes(skin)) return { ...progress, selectedSkin: skin };
+  const cost = CONE_SKINS[skin].cost;
+  if (progress.wallet < cost) return progress;
+  return {
+    ...progress,
+    wallet: progress.wallet - cost,
+    ownedSkins: [...progress.ownedSkins, skin],
+    selectedSkin: skin
+  };
+};
+
+export const getAssortment = (progress: ShopProgress): Assortment => {
+  const isOwned = (u: UpgradeDefinition) => getUpgradeLevel(progress, u.id) > 0;
+  const unlockedFlavors = UPGRADES.filter(isOwned).map(u => u.flavor).filter((f): f is Flavor => !!f);
+  const unlockedToppings = UPGRADES.filter(isOwned).map(u => u.topping).filter((t): t is Topping => !!t);
+
+  return {
+    flavors: getFlavorIds().filter(f => !LOCKED_FLAVORS.includes(f) || unlockedFlavors.includes(f)),
+    toppings: Object.values(Topping).filter(t => !LOCKED_TOPPINGS.includes(t) || unlockedToppings.includes(t)),
+    containers: Object.values(Container)
+  };
+};
+
+// Everything, locked or not, including custom flavors. Used for scripted shifts.
+export const getFullAssortment = (): Assortment => ({
+  flavors: getFlavorIds(),
+  toppings: Object.values(Topping),
+  containers: Object.values(Container)
+});
+
+// Seconds of patience the benches add
+export const getExtraTime = (progress: ShopProgress): number => getUpgradeLevel(progress, UpgradeId.EXTRA_TIME) * EXTRA_TIME_PER_LEVEL;
+
+// Seconds between auto-scoops, or 0 when the upgrade isn't owned
+export const getAutoScoopSeconds = (progress: ShopProgress): number => {
+  const level = Math.min(getUpgradeLevel(progress, UpgradeId.AUTO_SCOOP), AUTO_SCOOP_SECONDS.length - 1);
+  return AUTO_SCOOP_SECONDS[level];
+};
+
+// The difficulty row with upgrades applied
+export const getShiftRules = (difficulty: Difficulty, progress: ShopProgress): ShiftRules => {
+  const base = DIFFICULTY_SETTINGS[difficulty];
+  return {
+    ...base,
+    timeLimit: base.timeLimit + getExtraTime(progress),
+    assortment: getAssortment(progress),
+    meltRates: Object.fromEntries(getFlavors().map(f => [f.id, f.meltRate ?? 1])),
+    autoScoopSeconds: getAutoScoopSeconds(progress)
+  };
+};
+
+// Saved progress from older or hand-edited data. Levels are capped at what the
+// shop sells and the classic cone is always owned.
+export const parseShopProgress = (data: unknown): ShopProgress => {
+  if (typeof data !== 'object' || data === null) return DEFAULT_SHOP_PROGRESS;
+  const { wallet, upgrades, ownedSkins, selectedSkin } = data as Partial<ShopProgress>;
+  const owned = [ConeSkin.CLASSIC, ...(Array.isArray(ownedSkins) ? ownedSkins : [])
+    .filter(skin => skin !== ConeSkin.CLASSIC && Object.values(ConeSkin).includes(skin))];
+  return {
+    wallet: typeof wallet === 'number' && wallet >= 0 ? Math.floor(wallet) : 0,
+    upgrades: Object.fromEntries(UPGRADES.flatMap(u => {
+      const level = upgrades?.[u.id];
+      return typeof level === 'number' && level > 0 ? [[u.id, Math.min(Math.floor(level), u.costs.length)]] : [];
+    })),
+    ownedSkins: [...new Set(owned)],
+    selectedSkin: selectedSkin && owned.includes(selectedSkin) ? selectedSkin : ConeSkin.CLASSIC
+  };
+};
@@ -1,4 +1,4 @@
-import { Flavor } from '../types';
+import { FlavorDefinition } from '../types';
 
 // Simple synth for sound effects using Web Audio API
 // This avoids needing external assets and keeps the app self-contained
@@ -14,7 +14,7 @@ let musicGainNode: GainNode | null = null;
 let currentBPM = 110;
 
 // Note Frequencies
-const NOTES = {
+export const NOTES = {
   C3: 130.81, D3: 146.83, E3: 164.81, F3: 174.61, G3: 196.00, A3: 220.00, B3: 246.94,
   C4: 261.63, D4: 293.66, E4: 329.63, F4: 349.23, G4: 392.00, A4: 440.00, B4: 493.88,
   C5: 523.25, D5: 587.33, E5: 659.25, F5: 698.46, G5: 783.99, A5: 880.00,
@@ -202,68 +202,75 @@ export const playPopSound = () => {
   }
 };
 
-export const playFlavorSound = (flavor: Flavor) => {
+// One oscillator gliding between two pitches; the build-editing sounds are all variations of this
+const playSweep = (type: OscillatorType, from: number, to: number, duration: number, delay = 0) => {
   try {
     const ctx = getContext();
     if (ctx.state === 'suspended') ctx.resume();
 
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
+    const start = ctx.currentTime + delay;
 
     osc.connect(gain);
     gain.connect(ctx.destination);
 
-    // Default values
-    let freq = 440;
-    let type: OscillatorType = 'sine';
-    let duration = 0.15;
-
-    // Unique sound profile for each flavor
-    switch (flavor) {
-      case Flavor.VANILLA:
-        freq = NOTES.A4; 
-        type = 'sine';
-        break;
-      case Flavor.CHOCOLATE:
-        freq = NOTES.A3;
-        type = 'square';
-        break;
-      case Flavor.STRAWBERRY:
-        freq = NOTES.E5;
-        type = 'sine';
-        break;
-      case Flavor.MINT:
-        freq = NOTES.A5;
-        type = 'triangle';
-        break;
-      case Flavor.BLUEBERRY:
-        freq = NOTES.E4;
-        type = 'sine';
-        break;
-      case Flavor.LEMON:
-        freq = NOTES.D6; // Very high
-        type = 'sawtooth';
-        duration = 0.1;
-        break;
-      case Flavor.COFFEE:
-        freq = NOTES.A3 / 2;
-        type = 'sawtooth';
-        break;
-      case Flavor.PISTACHIO:
-        freq = NOTES.C5; // C#5 approx
-        type = 'triangle';
-        break;
-      case Flavor.MANGO:
-        freq = NOTES.C5;
-        type = 'sine';
-        break;
-      case Flavor.COOKIE_DOUGH:
-        freq = NOTES.E3;
-        type = 'square';
-        break;
-    }
-
     osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+
+    gain.gain.setValueAtTime(0.25 * sfxVolume, start);
+    gain.gain.exponentialRampToValueAtTime(0.01, start + duration);
+
+    osc.start(start);
+    osc.stop(start + duration);
+  } catch (e) {
+    console.warn("Audio play failed", e);
+  }
+};
+
+// Scoop flicked off the stack
+export const playRemoveSound = () => playSweep('triangle', 500, 120, 0.18);
+
+// Two quick blips, like a slide
+export const playMoveSound = () => {
+  playSweep('sine', NOTES.E5, NOTES.E5, 0.06);
+  playSweep('sine', NOTES.A5, NOTES.A5, 0.08, 0.07);
+};
+
+// Rewind / fast-forward whooshes
+export const playUndoSound = () => playSweep('sine', 900, 350, 0.15);
+export const playRedoSound = () => playSweep('sine', 350, 900, 0.15);
+
+// A dropped scoop falling off screen and landing with a thud
+export const playSplatSound = () => {
+  playSweep('sine', 700, 150, 0.35);
+  playSweep('triangle', 120, 50, 0.12, 0.35);
+};
+
+// Little fanfare for an unlocked achievement
+export const playAchievementSound = () => {
+  playSweep('triangle', NOTES.G5, NOTES.G5, 0.1);
+  playSweep('triangle', NOTES.C6, NOTES.C6, 0.1, 0.1);
+  playSweep('triangle', NOTES.D6, NOTES.D6, 0.3, 0.2);
+};
+
+export const playFlavorSound = (flavor: Pick<FlavorDefinition, 'note' | 'waveform' | 'duration'>) => {
+  try {
+    const ctx = getContext();
+    if (ctx.state === 'suspended') ctx.resume();
+
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.connect(gain);
+    gain.connect(ctx.destination);
+
+    // Each flavor carries its own sound profile (see data/flavors.json)
+    const freq = flavor.note;
+    const duration = flavor.duration ?? 0.15;
+
+    osc.type = flavor.waveform;
     osc.frequency.setValueAtTime(freq, ctx.currentTime);
     osc.frequency.exponentialRampToValueAtTime(freq * 0.8, ctx.currentTime + duration);
 
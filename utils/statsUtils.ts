@@ -0,0 +1,186 @@
+import { Difficulty, Flavor, FlavorTally, GameMode, ShiftEnd, ShiftRecord, StatsProgress } from '../types';
+import { STATS_HISTORY_LIMIT } from '../constants';
+import type { GameEvent, GameEngineState } from '../engine/gameEngine';
+import { toFlavor } from './flavorRegistry';
+
+// Player stats. Engine events are tallied over a shift, the tally becomes a
+// ShiftRecord at game over, and everything on the stats screen is worked out
+// from the saved history.
+
+export const DEFAULT_STATS_PROGRESS: StatsProgress = {
+  shifts: []
+};
+
+// The shift in progress
+export interface ShiftTally {
+  orders: number;
+  walkedOut: number;
+  accuracyTotal: number;
+  waitTotal: number; // Seconds
+  lastStrike: ShiftEnd;
+  flavors: Partial<Record<Flavor, FlavorTally>>;
+}
+
+export const createShiftTally = (): ShiftTally => ({
+  orders: 0,
+  walkedOut: 0,
+  accuracyTotal: 0,
+  waitTotal: 0,
+  lastStrike: ShiftEnd.WRONG_ORDER,
+  flavors: {}
+});
+
+const emptyFlavorTally = (): FlavorTally => ({ asked: 0, wrong: 0, confusedWith: {} });
+
+// Adds one flavor tally into another
+const addFlavorTally = (into: FlavorTally | undefined, tally: FlavorTally): FlavorTally => {
+  const sum = into ?? emptyFlavorTally();
+  const confusedWith = { ...sum.confusedWith };
+  Object.entries(tally.confusedWith).forEach(([flavor, count]) => {
+    confusedWith[flavor] = (confusedWith[flavor] ?? 0) + (count ?? 0);
+  });
+  return { asked: sum.asked + tally.asked, wrong: sum.wrong + tally.wrong, confusedWith };
+};
+
+// Moves the tally along for one engine event; unrelated events leave it as is
+export const trackShift = (tally: ShiftTally, event: GameEvent): ShiftTally => {
+  switch (event.type) {
+    case 'shiftStarted':
+      return createShiftTally();
+    case 'served': {
+      const { ticket, score } = event;
+      const flavors = { ...tally.flavors };
+      score.layers.forEach(({ expected, actual, isMatch }) => {
+        if (expected === null) return;
+        flavors[expected] = addFlavorTally(flavors[expected], {
+          asked: 1,
+          wrong: isMatch ? 0 : 1,
+          confusedWith: !isMatch && actual !== null ? { [actual]: 1 } : {}
+        });
+      });
+      return {
+        ...tally,
+        orders: tally.orders + 1,
+        accuracyTotal: tally.accuracyTotal + score.accuracy,
+        waitTotal: tally.waitTotal + ticket.maxPatience - ticket.patience,
+        lastStrike: score.isPassing ? tally.lastStrike : ShiftEnd.WRONG_ORDER,
+        flavors
+      };
+    }
+    case 'walkedOut':
+      return { ...tally, walkedOut: tally.walkedOut + event.tickets.length, lastStrike: ShiftEnd.WALKED_OUT };
+    default:
+      return tally;
+  }
+};
+
+// The record for a shift that just ended
+export const finishShift = (tally: ShiftTally, state: GameEngineState, now = new Date()): ShiftRecord => ({
+  date: now.toISOString(),
+  mode: state.mode,
+  difficulty: state.difficulty,
+  served: state.served,
+  orders: tally.orders,
+  walkedOut: tally.walkedOut,
+  accuracy: tally.orders ? Math.round(tally.accuracyTotal / tally.orders) : 0,
+  serveSeconds: tally.orders ? Math.round((tally.waitTotal / tally.orders) * 10) / 10 : 0,
+  coins: state.coins,
+  endedBy: state.strikes === 0 ? tally.lastStrike : ShiftEnd.CLOSING_TIME,
+  flavors: tally.flavors
+});
+
+export const recordShift = (progress: StatsProgress, record: ShiftRecord): StatsProgress => ({
+  ...progress,
+  shifts: [...progress.shifts, record].slice(-STATS_HISTORY_LIMIT)
+});
+
+export interface ShiftSummary {
+  shifts: number;
+  served: number; // Total
+  coins: number; // Average per shift
+  bestCoins: number;
+  accuracy: number; // Average per order handed over
+  serveSeconds: number; // Likewise
+}
+
+export const summarizeShifts = (shifts: ShiftRecord[]): ShiftSummary => {
+  const orders = shifts.reduce((n, s) => n + s.orders, 0);
+  // Per-order averages, so a long shift counts for more than a short one
+  const perOrder = (value: (s: ShiftRecord) => number) => orders ? shifts.reduce((n, s) => n + value(s) * s.orders, 0) / orders : 0;
+  return {
+    shifts: shifts.length,
+    served: shifts.reduce((n, s) => n + s.served, 0),
+    coins: shifts.length ? Math.round(shifts.reduce((n, s) => n + s.coins, 0) / shifts.length) : 0,
+    bestCoins: Math.max(0, ...shifts.map(s => s.coins)),
+    accuracy: Math.round(perOrder(s => s.accuracy)),
+    serveSeconds: Math.round(perOrder(s => s.serveSeconds) * 10) / 10
+  };
+};
+
+// Averages for each difficulty that has been played
+export const getDifficultySummaries = (progress: StatsProgress): [Difficulty, ShiftSummary][] => (
+  Object.values(Difficulty)
+    .map(d => [d, summarizeShifts(progress.shifts.filter(s => s.difficulty === d))] as [Difficulty, ShiftSummary])
+    .filter(([, summary]) => summary.shifts > 0)
+);
+
+export interface FlavorErrors {
+  flavor: Flavor;
+  asked: number;
+  wrong: number;
+  rate: number; // 0 - 1
+  mixedUpWith: Flavor | null; // What most often went on instead
+}
+
+// Every flavor ever asked for, most often wrong first
+export const getFlavorErrors = (progress: StatsProgress): FlavorErrors[] => {
+  const totals: Partial<Record<Flavor, FlavorTally>> = {};
+  progress.shifts.forEach(s => Object.entries(s.flavors).forEach(([flavor, tally]) => {
+    totals[flavor] = addFlavorTally(totals[flavor], tally);
+  }));
+  return Object.entries(totals)
+    .filter(([, tally]) => tally.asked > 0)
+    .map(([flavor, tally]) => {
+      const confusions = Object.entries(tally.confusedWith).sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0));
+      return {
+        flavor: toFlavor(flavor),
+        asked: tally.asked,
+        wrong: tally.wrong,
+        rate: tally.wrong / tally.asked,
+        mixedUpWith: confusions.length > 0 ? toFlavor(confusions[0][0]) : null
+      };
+    })
+    .sort((a, b) => b.rate - a.rate || b.asked - a.asked);
+};
+
+const isOneOf = <T extends string>(values: Record<string, T>, value: unknown): value is T => (
+  (Object.values(values) as unknown[]).includes(value)
+);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const parseFlavorTallies = (data: unknown): Partial<Record<Flavor, FlavorTally>> => {
+  if (typeof data !== 'object' || data === null) return {};
+  return Object.fromEntries(Object.entries(data as Record<string, Partial<FlavorTally>>)
+    .filter(([, tally]) => isNumber(tally?.asked) && isNumber(tally?.wrong))
+    .map(([flavor, tally]) => [flavor, {
+      asked: tally.asked as number,
+      wrong: tally.wrong as number,
+      confusedWith: Object.fromEntries(Object.entries(tally.confusedWith ?? {}).filter(([, count]) => isNumber(count)))
+    }]));
+};
+
+// Saved history from older or hand-edited data, keeping only well-formed shifts
+export const parseStatsProgress = (data: unknown): StatsProgress => {
+  const shifts = (data as Partial<StatsProgress> | null)?.shifts;
+  if (!Array.isArray(shifts)) return DEFAULT_STATS_PROGRESS;
+  return {
+    shifts: shifts
+      .filter((s: Partial<ShiftRecord> | null) => (
+        typeof s?.date === 'string' && isOneOf(GameMode, s.mode) && isOneOf(Difficulty, s.difficulty) && isOneOf(ShiftEnd, s.endedBy)
+        && [s.served, s.orders, s.walkedOut, s.accuracy, s.serveSeconds, s.coins].every(isNumber)
+      ))
+      .map((s: ShiftRecord) => ({ ...s, flavors: parseFlavorTallies(s.flavors) }))
+      .slice(-STATS_HISTORY_LIMIT)
+  };
+};